@@ -230,6 +230,9 @@ class WhatsAppDemo {
     // Don't reply to group messages (for demo)
     if (message.chat.includes('@g.us')) return;
     
+    // Only reply to text messages
+    if (message.type !== 'text') return;
+    
     const text = message.content.text?.toLowerCase();
     
     if (text?.includes('hello') || text?.includes('hi')) {
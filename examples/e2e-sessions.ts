@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+
+/**
+ * End-to-End Encryption Example
+ *
+ * Two in-process Signal clients (Alice and Bob) that:
+ * - Publish pre-keys
+ * - Start a session with X3DH from Bob's pre-key bundle
+ * - Exchange Double Ratchet encrypted messages in both directions
+ */
+
+import { SignalRepository, PreKeyBundle } from '../src';
+
+const ALICE = '15550000001@s.whatsapp.net';
+const BOB = '15550000002@s.whatsapp.net';
+
+/**
+ * Build the bundle a server would hand out for Bob
+ */
+async function publishBundle(repository: SignalRepository): Promise<PreKeyBundle> {
+  const keys = await repository.generateUploadKeys(1);
+
+  return {
+    registrationId: keys.registrationId,
+    identityKey: keys.identityKey,
+    signedPreKey: {
+      keyId: keys.signedPreKey.keyId,
+      publicKey: keys.signedPreKey.keyPair.publicKey,
+      signature: keys.signedPreKey.signature
+    },
+    preKey: {
+      keyId: keys.preKeys[0].keyId,
+      publicKey: keys.preKeys[0].keyPair.publicKey
+    }
+  };
+}
+
+// Main execution
+async function main() {
+  const alice = new SignalRepository();
+  const bob = new SignalRepository();
+
+  console.log('🔐 Bob publishes his pre-keys');
+  await alice.injectSession(BOB, await publishBundle(bob));
+
+  const conversation: Array<[SignalRepository, string, SignalRepository, string, string]> = [
+    [alice, BOB, bob, ALICE, 'Hi Bob!'],
+    [alice, BOB, bob, ALICE, 'Are you there?'],
+    [bob, ALICE, alice, BOB, 'Hi Alice, got both messages'],
+    [alice, BOB, bob, ALICE, 'Great, the session is established']
+  ];
+
+  for (const [sender, to, receiver, from, text] of conversation) {
+    const { type, body } = await sender.encryptMessage(to, Buffer.from(text, 'utf8'));
+    const plaintext = await receiver.decryptMessage(from, type, body);
+
+    console.log(`📨 [${type}] ${body.length} bytes -> "${plaintext.toString('utf8')}"`);
+  }
+
+  console.log('✅ Messages decrypted on both sides');
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,7 @@
+/**
+ * Accounts Module
+ *
+ * Runs many WhatsAppCore instances in one process.
+ */
+
+export { AccountManager, AccountManagerOptions, AccountConfig, AccountInfo, ACCOUNT_EVENTS } from './manager';
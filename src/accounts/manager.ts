@@ -0,0 +1,356 @@
+/**
+ * Account Manager
+ *
+ * Runs many WhatsAppCore instances (one per phone number) in a single
+ * process. Every account gets its own auth state store, its events are
+ * re-emitted on the manager with the account ID, and SIGINT / SIGTERM
+ * shut all of them down once.
+ */
+
+import { EventEmitter } from 'events';
+import * as path from 'path';
+import { WhatsAppCore, WhatsAppConfig } from '../whatsapp-core';
+import { AuthStateStore, FileAuthStateStore } from '../auth-state';
+
+/**
+ * Client configuration with every section optional (defaults are filled in by WhatsAppCore)
+ */
+export type AccountConfig = {
+  [K in keyof WhatsAppConfig]?: WhatsAppConfig[K] extends object ? Partial<WhatsAppConfig[K]> : WhatsAppConfig[K];
+};
+
+export interface AccountManagerOptions {
+  // Each account keeps its session in <baseDir>/<accountId>
+  baseDir?: string;
+  // Custom store per account (replaces the directory under baseDir)
+  storeFactory?: (accountId: string) => AuthStateStore;
+  // Configuration shared by every account, merged under the per-account configuration
+  defaults?: AccountConfig;
+  // Shut every account down on SIGINT / SIGTERM
+  handleSignals?: boolean;
+}
+
+/**
+ * Summary of one managed account
+ */
+export interface AccountInfo {
+  id: string;
+  running: boolean;
+  connected: boolean;
+  authenticated: boolean;
+  wid: string | null;
+}
+
+/**
+ * Events re-emitted from every account as (accountId, ...args)
+ */
+export const ACCOUNT_EVENTS = [
+  'connection.update',
+  'connection.degraded',
+  'connection.failed',
+  'reconnect_scheduled',
+  'reconnecting',
+  'disconnected',
+  'qr',
+  'qr.generate',
+  'pairing.code',
+  'pairing.expired',
+  'loginpage.ready',
+  'auth.success',
+  'auth.failure',
+  'ready',
+  'logged_out',
+  'session.migrated',
+  'message.new',
+  'message.sent',
+  'message.failed',
+  'rate_limit.throttled',
+  'message.update',
+  'message.delete',
+  'message.reaction',
+  'message.decrypt_failed',
+  'chat.update',
+  'contact.update',
+  'contacts.update',
+  'group.created',
+  'group.participants.add',
+  'group.participants.remove',
+  'group.participants.update',
+  'presence.update',
+  'user.update',
+  'error'
+];
+
+const ACCOUNT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+interface ManagedAccount {
+  id: string;
+  client: WhatsAppCore;
+  running: boolean;
+  detach: () => void;
+}
+
+/**
+ * Creates, starts, stops and lists WhatsAppCore instances by account ID.
+ *
+ * Events:
+ * - every event in ACCOUNT_EVENTS, as (accountId, ...args)
+ * - 'account.added' / 'account.removed' (accountId)
+ * - 'shutdown' once every account has been stopped
+ */
+export class AccountManager extends EventEmitter {
+  private options: AccountManagerOptions;
+  private accounts: Map<string, ManagedAccount> = new Map();
+  private shutdownPromise: Promise<void> | null = null;
+  private signalHandler: ((signal: NodeJS.Signals) => void) | null = null;
+
+  /**
+   * Create a new account manager
+   * @param {AccountManagerOptions} options Store location, shared defaults and signal handling
+   */
+  constructor(options: AccountManagerOptions = {}) {
+    super();
+    this.options = {
+      baseDir: './accounts',
+      handleSignals: true,
+      ...options
+    };
+
+    if (this.options.handleSignals) {
+      this.signalHandler = (signal) => {
+        console.log(`\n🛑 ${signal} received, shutting down ${this.accounts.size} account(s)...`);
+        this.shutdown().finally(() => {
+          if (signal === 'SIGINT') {
+            process.exit(0);
+          }
+        });
+      };
+      process.on('SIGINT', this.signalHandler);
+      process.on('SIGTERM', this.signalHandler);
+    }
+  }
+
+  /**
+   * Add an account. Its session lives in its own store; the client does not connect until start()
+   * @param {String} id Account ID (letters, digits, '.', '_' and '-')
+   * @param {AccountConfig} config Account configuration, merged over the manager defaults
+   * @returns {WhatsAppCore} The account's client
+   */
+  create(id: string, config: AccountConfig = {}): WhatsAppCore {
+    if (!ACCOUNT_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid account ID "${id}"`);
+    }
+
+    if (this.accounts.has(id)) {
+      throw new Error(`Account "${id}" already exists`);
+    }
+
+    if (this.shutdownPromise) {
+      throw new Error('Account manager has been shut down');
+    }
+
+    const client = new WhatsAppCore(this.buildConfig(id, config));
+    const account: ManagedAccount = { id, client, running: false, detach: () => {} };
+    account.detach = this.forwardEvents(account);
+
+    this.accounts.set(id, account);
+    this.emit('account.added', id);
+
+    return client;
+  }
+
+  /**
+   * Connect an account
+   * @param {String} id Account ID
+   * @returns {Promise<void>}
+   */
+  async start(id: string): Promise<void> {
+    const account = this.getAccount(id);
+    if (account.running) return;
+
+    account.running = true;
+    try {
+      await account.client.connect();
+    } catch (error) {
+      account.running = false;
+      throw error;
+    }
+  }
+
+  /**
+   * Connect every account that is not running, one after another
+   * @returns {Promise<void>}
+   */
+  async startAll(): Promise<void> {
+    for (const id of this.accounts.keys()) {
+      await this.start(id);
+    }
+  }
+
+  /**
+   * Disconnect an account (it keeps its session and can be started again)
+   * @param {String} id Account ID
+   */
+  stop(id: string): void {
+    const account = this.getAccount(id);
+    account.running = false;
+    account.client.disconnect();
+  }
+
+  /**
+   * Stop an account and stop managing it. Its session is kept unless it logged out
+   * @param {String} id Account ID
+   */
+  remove(id: string): void {
+    const account = this.getAccount(id);
+    if (account.running) {
+      this.stop(id);
+    }
+
+    account.detach();
+    this.accounts.delete(id);
+    this.emit('account.removed', id);
+  }
+
+  /**
+   * Get an account's client
+   * @param {String} id Account ID
+   * @returns {WhatsAppCore|undefined} Client, if the account exists
+   */
+  get(id: string): WhatsAppCore | undefined {
+    return this.accounts.get(id)?.client;
+  }
+
+  /**
+   * List the managed accounts
+   * @returns {AccountInfo[]} Accounts in creation order
+   */
+  list(): AccountInfo[] {
+    return Array.from(this.accounts.values()).map(account => {
+      const status = account.client.getStatus();
+      return {
+        id: account.id,
+        running: account.running,
+        connected: status.connected,
+        authenticated: status.authenticated,
+        wid: status.user?.id || null
+      };
+    });
+  }
+
+  /**
+   * Stop every account and remove the signal handlers. Safe to call more than once
+   * @returns {Promise<void>} Resolves when every account has been stopped
+   */
+  shutdown(): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.stopAll();
+    }
+    return this.shutdownPromise;
+  }
+
+  /**
+   * Stop all accounts, then release the process
+   * @private
+   */
+  private async stopAll(): Promise<void> {
+    if (this.signalHandler) {
+      process.off('SIGINT', this.signalHandler);
+      process.off('SIGTERM', this.signalHandler);
+      this.signalHandler = null;
+    }
+
+    for (const account of this.accounts.values()) {
+      try {
+        if (account.running) {
+          this.stop(account.id);
+        }
+      } catch (error) {
+        console.error(`❌ Failed to stop account ${account.id}:`, error);
+      }
+    }
+
+    this.emit('shutdown');
+  }
+
+  /**
+   * Build an account's client configuration with its own store and without process signal handlers
+   * @private
+   */
+  private buildConfig(id: string, config: AccountConfig): WhatsAppConfig {
+    const defaults = this.options.defaults || {};
+    const merged: AccountConfig = { ...defaults, ...config };
+
+    for (const key of Object.keys(merged) as Array<keyof AccountConfig>) {
+      const base = defaults[key];
+      const own = config[key];
+      if (isPlainObject(base) && isPlainObject(own)) {
+        (merged as any)[key] = { ...base, ...own };
+      }
+    }
+
+    const sessionPath = config.auth?.sessionPath || path.join(this.options.baseDir!, id);
+    merged.auth = {
+      ...merged.auth,
+      sessionPath,
+      store: config.auth?.store || this.options.storeFactory?.(id)
+        || new FileAuthStateStore(sessionPath, { passphrase: merged.auth?.passphrase })
+    };
+    merged.handleSignals = false;
+
+    return merged as WhatsAppConfig;
+  }
+
+  /**
+   * Re-emit an account's events on the manager
+   * @returns {Function} Stops forwarding
+   * @private
+   */
+  private forwardEvents(account: ManagedAccount): () => void {
+    const handlers: Record<string, (...args: any[]) => void> = {};
+
+    for (const event of ACCOUNT_EVENTS) {
+      handlers[event] = (...args: any[]) => {
+        // An account's logout or failed reconnect means it is no longer running
+        if (event === 'logged_out' || event === 'connection.failed') {
+          account.running = false;
+        }
+
+        // Unhandled 'error' events would throw; an account's failure must not take the process down
+        if (event === 'error' && this.listenerCount('error') === 0) {
+          console.error(`❌ Account ${account.id} error:`, args[0]);
+          return;
+        }
+
+        this.emit(event, account.id, ...args);
+      };
+      account.client.on(event, handlers[event]);
+    }
+
+    return () => {
+      for (const [event, handler] of Object.entries(handlers)) {
+        account.client.off(event, handler);
+      }
+    };
+  }
+
+  /**
+   * Get a managed account or throw
+   * @private
+   */
+  private getAccount(id: string): ManagedAccount {
+    const account = this.accounts.get(id);
+    if (!account) {
+      throw new Error(`Unknown account "${id}"`);
+    }
+    return account;
+  }
+}
+
+/**
+ * Whether a value is a plain object (configuration section) rather than a class instance
+ * @private
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
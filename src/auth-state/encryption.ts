@@ -0,0 +1,163 @@
+/**
+ * Session Encryption
+ *
+ * Passphrase-based encryption of stored session data. The key is derived
+ * with scrypt and the data sealed with AES-256-GCM; the header (format,
+ * version, KDF parameters, salt and IV) is authenticated as additional data
+ * so it cannot be altered either.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { SessionError } from '../utils/errors';
+
+export const ENCRYPTED_SESSION_FORMAT = 'whatsapp-core/encrypted-session';
+export const ENCRYPTED_SESSION_VERSION = 1;
+
+/**
+ * scrypt cost parameters
+ */
+export interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+/**
+ * Plaintext header of an encrypted value
+ */
+export interface EncryptionHeader extends ScryptParams {
+  format: string;
+  version: number;
+  kdf: 'scrypt';
+  cipher: 'aes-256-gcm';
+  salt: string;
+  iv: string;
+}
+
+/**
+ * Encrypted value as written to storage
+ */
+export interface EncryptedEnvelope {
+  header: EncryptionHeader;
+  data: string;
+  tag: string;
+}
+
+const DEFAULT_SCRYPT_PARAMS: ScryptParams = { N: 1 << 15, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+const MAX_SCRYPT_N = 1 << 20;
+
+/**
+ * Encrypts and decrypts session data with a passphrase.
+ * Derived keys are cached per salt, so only the first read or write pays for scrypt.
+ */
+export class PassphraseCipher {
+  private passphrase: string;
+  private params: ScryptParams;
+  private salt: Buffer = randomBytes(16);
+  private keys: Map<string, Promise<Buffer>> = new Map();
+
+  /**
+   * Create a new passphrase cipher
+   * @param {String} passphrase Passphrase
+   * @param {ScryptParams} params scrypt cost for newly written data
+   */
+  constructor(passphrase: string, params: Partial<ScryptParams> = {}) {
+    if (!passphrase) {
+      throw new SessionError('Passphrase must not be empty', 'INVALID_PASSPHRASE');
+    }
+
+    this.passphrase = passphrase;
+    this.params = { ...DEFAULT_SCRYPT_PARAMS, ...params };
+  }
+
+  /**
+   * Encrypt a string
+   * @param {String} plaintext Data to encrypt
+   * @returns {Promise<EncryptedEnvelope>} Envelope
+   */
+  async encrypt(plaintext: string): Promise<EncryptedEnvelope> {
+    const header: EncryptionHeader = {
+      format: ENCRYPTED_SESSION_FORMAT,
+      version: ENCRYPTED_SESSION_VERSION,
+      kdf: 'scrypt',
+      ...this.params,
+      cipher: 'aes-256-gcm',
+      salt: this.salt.toString('base64'),
+      iv: randomBytes(12).toString('base64')
+    };
+
+    const key = await this.deriveKey(this.salt, this.params);
+    const cipher = createCipheriv('aes-256-gcm', key, Buffer.from(header.iv, 'base64'));
+    cipher.setAAD(Buffer.from(JSON.stringify(header)));
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return { header, data: data.toString('base64'), tag: cipher.getAuthTag().toString('base64') };
+  }
+
+  /**
+   * Decrypt an envelope
+   * @param {EncryptedEnvelope} envelope Envelope
+   * @returns {Promise<String>} Plaintext
+   */
+  async decrypt(envelope: EncryptedEnvelope): Promise<string> {
+    const { header } = envelope;
+
+    if (header.version > ENCRYPTED_SESSION_VERSION) {
+      throw new SessionError(
+        `Encrypted session version ${header.version} is newer than supported (${ENCRYPTED_SESSION_VERSION})`,
+        'UNSUPPORTED_SESSION_VERSION'
+      );
+    }
+
+    if (header.kdf !== 'scrypt' || header.cipher !== 'aes-256-gcm') {
+      throw new SessionError(`Unsupported session encryption ${header.kdf}/${header.cipher}`, 'UNSUPPORTED_SESSION_VERSION');
+    }
+
+    // Refuse parameters that would make key derivation exhaust memory
+    if (header.N > MAX_SCRYPT_N || header.r > 32 || header.p > 16) {
+      throw new SessionError('Session encryption parameters are out of range', 'INVALID_KDF_PARAMS');
+    }
+
+    const key = await this.deriveKey(Buffer.from(header.salt, 'base64'), header);
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(header.iv, 'base64'));
+      decipher.setAAD(Buffer.from(JSON.stringify(header)));
+      decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]).toString('utf8');
+    } catch (error) {
+      throw new SessionError('Wrong passphrase or tampered session data', 'BAD_PASSPHRASE');
+    }
+  }
+
+  /**
+   * Derive (or reuse) the key for a salt
+   * @private
+   */
+  private deriveKey(salt: Buffer, params: ScryptParams): Promise<Buffer> {
+    const id = `${salt.toString('base64')}:${params.N}:${params.r}:${params.p}`;
+
+    if (!this.keys.has(id)) {
+      this.keys.set(id, new Promise((resolve, reject) => {
+        // scrypt needs 128 * N * r bytes; allow twice that
+        const maxmem = 256 * params.N * params.r;
+        scrypt(this.passphrase, salt, KEY_LENGTH, { ...params, maxmem }, (error, key) => {
+          if (error) reject(new SessionError(`Key derivation failed: ${error.message}`, 'INVALID_KDF_PARAMS'));
+          else resolve(key);
+        });
+      }));
+    }
+
+    return this.keys.get(id)!;
+  }
+}
+
+/**
+ * Check whether a stored value is an encrypted envelope
+ * @param {any} value Parsed stored value
+ * @returns {Boolean}
+ */
+export function isEncryptedEnvelope(value: any): value is EncryptedEnvelope {
+  return !!value && typeof value === 'object' && value.header?.format === ENCRYPTED_SESSION_FORMAT;
+}
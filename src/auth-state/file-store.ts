@@ -0,0 +1,204 @@
+/**
+ * File Auth State Store
+ *
+ * Keeps credentials in `<dir>/session.json` (the classic session file) and
+ * every key in its own file under `<dir>/keys/`. With a passphrase every
+ * file is encrypted at rest.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { bufferReplacer, bufferReviver } from '../utils/helpers';
+import { SessionError } from '../utils/errors';
+import { AuthStateStore, SessionState } from './store';
+import { PassphraseCipher, isEncryptedEnvelope } from './encryption';
+
+/**
+ * Options shared by the file based stores
+ */
+export interface FileAuthStateOptions {
+  passphrase?: string;
+}
+
+/**
+ * Auth state stored as JSON files in a directory
+ */
+export class FileAuthStateStore implements AuthStateStore {
+  private dir: string;
+  private cipher: PassphraseCipher | null;
+
+  /**
+   * Create a new file store
+   * @param {String} dir Session directory (created on first write)
+   * @param {FileAuthStateOptions} options Passphrase to encrypt the files with
+   */
+  constructor(dir: string, options: FileAuthStateOptions = {}) {
+    this.dir = dir;
+    this.cipher = options.passphrase ? new PassphraseCipher(options.passphrase) : null;
+  }
+
+  async getCredentials(): Promise<SessionState | null> {
+    return readJson(path.join(this.dir, 'session.json'), this.cipher);
+  }
+
+  async setCredentials(credentials: SessionState): Promise<void> {
+    await writeJson(path.join(this.dir, 'session.json'), credentials, this.cipher);
+  }
+
+  async deleteCredentials(): Promise<void> {
+    await removeFile(path.join(this.dir, 'session.json'));
+  }
+
+  async backupCredentials(label: string): Promise<string | null> {
+    return backupFile(path.join(this.dir, 'session.json'), label);
+  }
+
+  async getKey<T = any>(type: string, id: string): Promise<T | null> {
+    return readJson(this.keyPath(type, id), this.cipher);
+  }
+
+  async setKey<T = any>(type: string, id: string, value: T): Promise<void> {
+    await writeJson(this.keyPath(type, id), value, this.cipher);
+  }
+
+  async deleteKey(type: string, id: string): Promise<void> {
+    await removeFile(this.keyPath(type, id));
+  }
+
+  async clear(): Promise<void> {
+    await this.deleteCredentials();
+    await removeBackups(path.join(this.dir, 'session.json'));
+    await fs.rm(path.join(this.dir, 'keys'), { recursive: true, force: true });
+  }
+
+  /**
+   * File holding a key (type and id are escaped so they cannot leave the directory)
+   * @private
+   */
+  private keyPath(type: string, id: string): string {
+    return path.join(this.dir, 'keys', `${encodeURIComponent(type)}-${encodeURIComponent(id)}.json`);
+  }
+}
+
+/**
+ * Read a JSON file, or null if it does not exist. Encrypted files need the
+ * cipher; plain files are read as-is (and encrypted on their next write).
+ * @param {String} file File path
+ * @param {PassphraseCipher} cipher Cipher for encrypted files
+ * @returns {Promise<any>} Parsed value
+ */
+export async function readJson(file: string, cipher: PassphraseCipher | null = null): Promise<any> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+
+  const value = parseStoredJson(contents, file);
+
+  if (!isEncryptedEnvelope(value)) {
+    return value;
+  }
+
+  if (!cipher) {
+    throw new SessionError(`${file} is encrypted; a passphrase is required`, 'PASSPHRASE_REQUIRED');
+  }
+
+  try {
+    return parseStoredJson(await cipher.decrypt(value), file);
+  } catch (error) {
+    if (error instanceof SessionError) {
+      throw new SessionError(`${error.message} (${file})`, error.code);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a JSON file atomically (temporary file + rename)
+ * @param {String} file File path
+ * @param {any} value Value to write
+ * @param {PassphraseCipher} cipher Encrypt the file with this cipher
+ * @returns {Promise<void>}
+ */
+export async function writeJson(file: string, value: any, cipher: PassphraseCipher | null = null): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  const json = JSON.stringify(value, bufferReplacer, 2);
+  const contents = cipher ? JSON.stringify(await cipher.encrypt(json), null, 2) : json;
+
+  const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(temp, contents, { mode: 0o600 });
+  await fs.rename(temp, file);
+}
+
+/**
+ * Copy a file next to itself as `<file>.<label>.bak` (contents untouched, so encrypted files stay encrypted)
+ * @param {String} file File path
+ * @param {String} label Backup label
+ * @returns {Promise<String|null>} Backup path, or null if the file does not exist
+ */
+export async function backupFile(file: string, label: string): Promise<string | null> {
+  const backup = `${file}.${label}.bak`;
+  try {
+    await fs.copyFile(file, backup);
+    return backup;
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * List the backups backupFile() made of a file
+ * @param {String} file File path
+ * @returns {Promise<String[]>} Backup paths
+ */
+export async function listBackups(file: string): Promise<string[]> {
+  const prefix = `${path.basename(file)}.`;
+
+  let names: string[];
+  try {
+    names = await fs.readdir(path.dirname(file));
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  return names
+    .filter(name => name.startsWith(prefix) && name.endsWith('.bak'))
+    .map(name => path.join(path.dirname(file), name));
+}
+
+/**
+ * Delete the backups of a file, which hold the same credentials
+ * @param {String} file File path
+ * @returns {Promise<void>}
+ */
+export async function removeBackups(file: string): Promise<void> {
+  for (const backup of await listBackups(file)) {
+    await removeFile(backup);
+  }
+}
+
+/**
+ * Parse stored JSON, reporting unparsable data as a corrupt session
+ * @private
+ */
+function parseStoredJson(contents: string, file: string): any {
+  try {
+    return JSON.parse(contents, bufferReviver);
+  } catch (error) {
+    throw new SessionError(`${file} is corrupt: ${error.message}`, 'CORRUPT_SESSION');
+  }
+}
+
+/**
+ * Remove a file, ignoring files that do not exist
+ * @private
+ */
+async function removeFile(file: string): Promise<void> {
+  await fs.rm(file, { force: true });
+}
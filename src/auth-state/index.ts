@@ -0,0 +1,30 @@
+/**
+ * Auth State Module
+ *
+ * Pluggable storage of login credentials and keys (files, memory, a single
+ * database file or your own backend), optionally encrypted at rest.
+ */
+
+export { SessionState, AuthStateStore, MemoryAuthStateStore } from './store';
+export { FileAuthStateStore, FileAuthStateOptions } from './file-store';
+export { SingleFileAuthStateStore } from './single-file-store';
+export { AuthStateSignalKeyStore } from './signal-store';
+export {
+  PassphraseCipher,
+  EncryptedEnvelope,
+  EncryptionHeader,
+  ScryptParams,
+  ENCRYPTED_SESSION_FORMAT,
+  ENCRYPTED_SESSION_VERSION,
+  isEncryptedEnvelope
+} from './encryption';
+export { rekeySession, RekeyOptions } from './rekey';
+export {
+  SESSION_SCHEMA_VERSION,
+  SESSION_MIGRATIONS,
+  SessionMigration,
+  LoadedSession,
+  migrateSession,
+  loadSessionState
+} from './migrations';
+export { SessionLock, SessionLockOptions, SessionLockInfo, SESSION_LOCK_FILE, readSessionLock } from './lock';
@@ -0,0 +1,255 @@
+/**
+ * Session Lock
+ *
+ * Exclusive lock file in a session directory so two processes never run the
+ * same session (they would keep taking the login over from each other and
+ * race on session.json). The holder refreshes a heartbeat in the file; a lock
+ * whose heartbeat stopped, or whose process is gone, is stale and taken over.
+ */
+
+import { EventEmitter } from 'events';
+import * as fsSync from 'fs';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { SessionLockedError } from '../utils/errors';
+
+export const SESSION_LOCK_FILE = 'session.lock';
+
+export interface SessionLockOptions {
+  // How long (ms) to wait for a lock held by another process; 0 fails immediately
+  wait?: number;
+  // How often (ms) to check again while waiting
+  retryInterval?: number;
+  // How often (ms) the holder refreshes its heartbeat
+  heartbeatInterval?: number;
+  // A lock whose heartbeat is older than this (ms) is stale
+  staleTimeout?: number;
+}
+
+/**
+ * Contents of the lock file
+ */
+export interface SessionLockInfo {
+  pid: number;
+  host: string;
+  token: string;
+  acquiredAt: number;
+  heartbeatAt: number;
+}
+
+/**
+ * Exclusive, heartbeat-refreshed lock on a session directory.
+ *
+ * Events:
+ * - 'lost' (SessionLockInfo|null) when another process took the lock over
+ * - 'error' (Error) when the heartbeat cannot be written
+ */
+export class SessionLock extends EventEmitter {
+  private file: string;
+  private options: Required<SessionLockOptions>;
+  private token: string | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  /**
+   * Create a lock for a session directory
+   * @param {String} dir Session directory
+   * @param {SessionLockOptions} options Wait, heartbeat and staleness settings
+   */
+  constructor(dir: string, options: SessionLockOptions = {}) {
+    super();
+    this.file = path.join(dir, SESSION_LOCK_FILE);
+    this.options = {
+      wait: 0,
+      retryInterval: 500,
+      heartbeatInterval: 10000,
+      staleTimeout: 30000,
+      ...options
+    };
+  }
+
+  /**
+   * Whether this lock is currently held
+   * @returns {Boolean}
+   */
+  isHeld(): boolean {
+    return this.token !== null;
+  }
+
+  /**
+   * Take the lock, replacing a stale one. Waits up to `wait` ms for a live holder.
+   * @returns {Promise<void>}
+   * @throws {SessionLockedError} When another process holds the lock
+   */
+  async acquire(): Promise<void> {
+    if (this.token) return;
+
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const deadline = Date.now() + this.options.wait;
+    const token = randomBytes(8).toString('hex');
+
+    while (!(await this.tryCreate(token))) {
+      const owner = await readSessionLock(this.file);
+
+      if (await this.isStale(owner)) {
+        await this.removeStale(owner);
+        continue;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new SessionLockedError(
+          owner
+            ? `Session is in use by process ${owner.pid} on ${owner.host} (${this.file})`
+            : `Session is locked (${this.file})`,
+          owner && { pid: owner.pid, host: owner.host, heartbeatAt: owner.heartbeatAt }
+        );
+      }
+
+      await new Promise(resolve => setTimeout(resolve, Math.min(this.options.retryInterval, remaining)));
+    }
+
+    this.token = token;
+    this.heartbeat = setInterval(() => this.refresh(), this.options.heartbeatInterval);
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Release the lock if this process still holds it. Synchronous, so it
+   * also completes when called right before process.exit()
+   */
+  release(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+
+    if (!this.token) return;
+    const token = this.token;
+    this.token = null;
+
+    try {
+      const owner = JSON.parse(fsSync.readFileSync(this.file, 'utf8')) as SessionLockInfo;
+      if (owner.token === token) {
+        fsSync.unlinkSync(this.file);
+      }
+    } catch (error) {
+      // Already gone or taken over: nothing of ours to remove
+    }
+  }
+
+  /**
+   * Create the lock file unless it exists
+   * @private
+   */
+  private async tryCreate(token: string): Promise<boolean> {
+    const now = Date.now();
+    const info: SessionLockInfo = { pid: process.pid, host: os.hostname(), token, acquiredAt: now, heartbeatAt: now };
+
+    try {
+      await fs.writeFile(this.file, JSON.stringify(info), { flag: 'wx', mode: 0o600 });
+      return true;
+    } catch (error) {
+      if (error.code === 'EEXIST') return false;
+      throw error;
+    }
+  }
+
+  /**
+   * A lock is stale when its heartbeat stopped or its process on this host is gone
+   * @private
+   */
+  private async isStale(owner: SessionLockInfo | null): Promise<boolean> {
+    if (!owner) {
+      // Unreadable lock: give a holder that is still writing it the benefit of the doubt
+      try {
+        const stat = await fs.stat(this.file);
+        return Date.now() - stat.mtimeMs > this.options.staleTimeout;
+      } catch (error) {
+        return true;
+      }
+    }
+
+    if (Date.now() - owner.heartbeatAt > this.options.staleTimeout) {
+      return true;
+    }
+
+    return owner.host === os.hostname() && !isProcessAlive(owner.pid);
+  }
+
+  /**
+   * Remove a stale lock, unless it changed hands since it was read
+   * @private
+   */
+  private async removeStale(owner: SessionLockInfo | null): Promise<void> {
+    const current = await readSessionLock(this.file);
+    if (current?.token !== owner?.token) return;
+
+    console.warn(owner
+      ? `⚠️ Taking over stale session lock of process ${owner.pid} on ${owner.host}`
+      : '⚠️ Taking over unreadable session lock');
+
+    await fs.rm(this.file, { force: true });
+  }
+
+  /**
+   * Write a new heartbeat, or give the lock up if another process took it over
+   * @private
+   */
+  private async refresh(): Promise<void> {
+    const token = this.token;
+    if (!token) return;
+
+    try {
+      const owner = await readSessionLock(this.file);
+      if (!this.token) return;
+
+      if (owner?.token !== token) {
+        this.release();
+        this.emit('lost', owner);
+        return;
+      }
+
+      const temp = `${this.file}.${token}.tmp`;
+      await fs.writeFile(temp, JSON.stringify({ ...owner, heartbeatAt: Date.now() }), { mode: 0o600 });
+
+      // Released while writing: do not bring the lock file back
+      if (this.token !== token) {
+        await fs.rm(temp, { force: true });
+        return;
+      }
+      await fs.rename(temp, this.file);
+    } catch (error) {
+      this.emit('error', error);
+    }
+  }
+}
+
+/**
+ * Read a lock file
+ * @param {String} file Lock file
+ * @returns {Promise<SessionLockInfo|null>} Lock contents, or null if missing or unreadable
+ */
+export async function readSessionLock(file: string): Promise<SessionLockInfo | null> {
+  try {
+    const info = JSON.parse(await fs.readFile(file, 'utf8'));
+    return info && typeof info.token === 'string' ? info : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Check whether a process exists on this host
+ * @private
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return error.code === 'EPERM';
+  }
+}
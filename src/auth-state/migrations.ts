@@ -0,0 +1,138 @@
+/**
+ * Session Schema Migrations
+ *
+ * Stored sessions carry a schema version. Sessions written by older
+ * releases are upgraded step by step through the registry below when they
+ * are loaded; the original is backed up first and the upgraded session is
+ * written back.
+ *
+ * To change the schema: bump SESSION_SCHEMA_VERSION and append a migration
+ * from the previous version.
+ */
+
+import { SessionError } from '../utils/errors';
+import { AuthStateStore, SessionState } from './store';
+
+export const SESSION_SCHEMA_VERSION = 1;
+
+/**
+ * One schema upgrade step
+ */
+export interface SessionMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate(session: Record<string, any>): Record<string, any>;
+}
+
+/**
+ * Result of loading a stored session
+ */
+export interface LoadedSession {
+  session: SessionState;
+  migratedFrom?: number;
+  backup?: string | null;
+}
+
+/**
+ * Registered upgrades, in order
+ */
+export const SESSION_MIGRATIONS: SessionMigration[] = [
+  {
+    from: 0,
+    to: 1,
+    description: 'Add schema version, timestamp and user fields to unversioned sessions',
+    migrate: (session) => ({
+      ...session,
+      user: session.user ?? null,
+      timestamp: typeof session.timestamp === 'number' ? session.timestamp : Date.now()
+    })
+  }
+];
+
+/**
+ * Upgrade a stored session to the current schema version
+ * @param {Object} stored Session as read from the store
+ * @returns {Object} Current session and the version it was migrated from (if any)
+ */
+export function migrateSession(stored: any): { session: SessionState; migratedFrom?: number } {
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+    throw new SessionError('Stored session is not an object', 'CORRUPT_SESSION');
+  }
+
+  const initialVersion = stored.version === undefined ? 0 : stored.version;
+  if (!Number.isInteger(initialVersion) || initialVersion < 0) {
+    throw new SessionError(`Stored session has an invalid version: ${stored.version}`, 'CORRUPT_SESSION');
+  }
+
+  if (initialVersion > SESSION_SCHEMA_VERSION) {
+    throw new SessionError(
+      `Session schema version ${initialVersion} is newer than supported (${SESSION_SCHEMA_VERSION}); upgrade the library`,
+      'UNSUPPORTED_SESSION_VERSION'
+    );
+  }
+
+  let session: Record<string, any> = stored;
+  let version = initialVersion;
+
+  while (version < SESSION_SCHEMA_VERSION) {
+    const migration = SESSION_MIGRATIONS.find(candidate => candidate.from === version);
+    if (!migration) {
+      throw new SessionError(`No migration from session schema version ${version}`, 'UNSUPPORTED_SESSION_VERSION');
+    }
+
+    session = { ...migration.migrate(session), version: migration.to };
+    version = migration.to;
+  }
+
+  validateSession(session);
+
+  return {
+    session: session as SessionState,
+    migratedFrom: initialVersion < SESSION_SCHEMA_VERSION ? initialVersion : undefined
+  };
+}
+
+/**
+ * Read the session from a store, upgrading (and backing up) older schema versions
+ * @param {AuthStateStore} store Auth state store
+ * @returns {Promise<LoadedSession|null>} Session, or null if none is stored
+ */
+export async function loadSessionState(store: AuthStateStore): Promise<LoadedSession | null> {
+  const stored = await store.getCredentials();
+  if (!stored) {
+    return null;
+  }
+
+  const { session, migratedFrom } = migrateSession(stored);
+  if (migratedFrom === undefined) {
+    return { session };
+  }
+
+  const backup = store.backupCredentials
+    ? await store.backupCredentials(`v${migratedFrom}-${Date.now()}`)
+    : null;
+  await store.setCredentials(session);
+
+  return { session, migratedFrom, backup };
+}
+
+/**
+ * Check that a session has every required field with the right type
+ * @private
+ */
+function validateSession(session: Record<string, any>): void {
+  const required = ['clientId', 'privateKey', 'publicKey', 'serverToken', 'clientToken', 'encKey', 'macKey', 'wid'];
+
+  for (const field of required) {
+    if (typeof session[field] !== 'string') {
+      throw new SessionError(`Stored session is missing "${field}"`, 'CORRUPT_SESSION');
+    }
+  }
+
+  for (const field of ['privateKey', 'publicKey']) {
+    if (Buffer.from(session[field], 'base64').length !== 32) {
+      throw new SessionError(`Stored session has an invalid ${field}`, 'CORRUPT_SESSION');
+    }
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Session Re-keying
+ *
+ * Changes the passphrase of a stored session, or encrypts / decrypts an
+ * existing one, in place.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PassphraseCipher } from './encryption';
+import { readJson, writeJson, listBackups } from './file-store';
+
+/**
+ * Current and new passphrase (null or omitted means unencrypted)
+ */
+export interface RekeyOptions {
+  oldPassphrase?: string | null;
+  newPassphrase?: string | null;
+}
+
+/**
+ * Re-encrypt a session written by FileAuthStateStore (a directory) or
+ * SingleFileAuthStateStore (a file), including the backups of its
+ * credentials and the outbox kept in a session directory. Every file is decrypted before any is rewritten, so a wrong
+ * old passphrase leaves the session untouched. A backup the old passphrase
+ * does not open is deleted rather than left under a passphrase no longer in use.
+ * @param {String} target Session directory or database file
+ * @param {RekeyOptions} options Current and new passphrase
+ * @returns {Promise<Number>} Number of files rewritten
+ */
+export async function rekeySession(target: string, options: RekeyOptions): Promise<number> {
+  const oldCipher = options.oldPassphrase ? new PassphraseCipher(options.oldPassphrase) : null;
+  const newCipher = options.newPassphrase ? new PassphraseCipher(options.newPassphrase) : null;
+
+  const files = await sessionFiles(target);
+  const values = [];
+  for (const file of files) {
+    values.push(await readJson(file, oldCipher));
+  }
+
+  for (const backup of await listBackups(await credentialsFile(target))) {
+    try {
+      values.push(await readJson(backup, oldCipher));
+      files.push(backup);
+    } catch (error) {
+      console.warn(`⚠️ Deleting session backup ${backup}, it cannot be re-encrypted:`, error.message);
+      await fs.rm(backup, { force: true });
+    }
+  }
+
+  for (let i = 0; i < files.length; i++) {
+    await writeJson(files[i], values[i], newCipher);
+  }
+
+  return files.length;
+}
+
+/**
+ * List the files making up a stored session
+ * @private
+ */
+async function sessionFiles(target: string): Promise<string[]> {
+  const stat = await fs.stat(target);
+  if (!stat.isDirectory()) {
+    return [target];
+  }
+
+  const files: string[] = [];
+  const sessionFile = path.join(target, 'session.json');
+  if (await exists(sessionFile)) {
+    files.push(sessionFile);
+  }
+
+  // Messages the client queued while offline, encrypted with the same passphrase
+  const outboxFile = path.join(target, 'outbox.json');
+  if (await exists(outboxFile)) {
+    files.push(outboxFile);
+  }
+
+  const keysDir = path.join(target, 'keys');
+  if (await exists(keysDir)) {
+    for (const name of await fs.readdir(keysDir)) {
+      if (name.endsWith('.json')) {
+        files.push(path.join(keysDir, name));
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * File holding the credentials, whose backups are rekeyed along with it
+ * @private
+ */
+async function credentialsFile(target: string): Promise<string> {
+  const stat = await fs.stat(target);
+  return stat.isDirectory() ? path.join(target, 'session.json') : target;
+}
+
+/**
+ * Check whether a path exists
+ * @private
+ */
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
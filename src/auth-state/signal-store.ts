@@ -0,0 +1,129 @@
+/**
+ * Signal Keys on an Auth State Store
+ *
+ * Adapts an AuthStateStore to the Signal key and sender key store
+ * interfaces, so end-to-end encryption sessions persist next to the login
+ * credentials.
+ */
+
+import { KeyPair } from '../crypto/curve';
+import {
+  PreKey,
+  PreKeyRange,
+  SignedPreKey,
+  SessionRecord,
+  SenderKeyRecord,
+  SignalKeyStore,
+  SenderKeyStore,
+  generateIdentityKeyPair,
+  generateRegistrationId
+} from '../signal';
+import { AuthStateStore } from './store';
+
+/**
+ * Signal key store backed by an AuthStateStore
+ */
+export class AuthStateSignalKeyStore implements SignalKeyStore, SenderKeyStore {
+  private store: AuthStateStore;
+  private localIdentity: Promise<{ identityKeyPair: KeyPair; registrationId: number }> | null = null;
+
+  /**
+   * Create a new adapter
+   * @param {AuthStateStore} store Auth state store holding the keys
+   */
+  constructor(store: AuthStateStore) {
+    this.store = store;
+  }
+
+  async getIdentityKeyPair(): Promise<KeyPair> {
+    return (await this.getLocalIdentity()).identityKeyPair;
+  }
+
+  async getLocalRegistrationId(): Promise<number> {
+    return (await this.getLocalIdentity()).registrationId;
+  }
+
+  /**
+   * Trust on first use: an identity is trusted unless a different one was saved
+   */
+  async isTrustedIdentity(address: string, identityKey: Buffer): Promise<boolean> {
+    const existing = await this.store.getKey<Buffer>('identity', address);
+    return !existing || existing.equals(identityKey);
+  }
+
+  async saveIdentity(address: string, identityKey: Buffer): Promise<void> {
+    await this.store.setKey('identity', address, identityKey);
+  }
+
+  async loadPreKey(keyId: number): Promise<PreKey | undefined> {
+    return (await this.store.getKey<PreKey>('pre-key', String(keyId))) || undefined;
+  }
+
+  async storePreKey(preKey: PreKey): Promise<void> {
+    await this.store.setKey('pre-key', String(preKey.keyId), preKey);
+  }
+
+  async removePreKey(keyId: number): Promise<void> {
+    await this.store.deleteKey('pre-key', String(keyId));
+  }
+
+  async loadPreKeyRange(): Promise<PreKeyRange | undefined> {
+    return (await this.store.getKey<PreKeyRange>('pre-key-range', 'self')) || undefined;
+  }
+
+  async storePreKeyRange(range: PreKeyRange): Promise<void> {
+    await this.store.setKey('pre-key-range', 'self', range);
+  }
+
+  async loadSignedPreKey(keyId: number): Promise<SignedPreKey | undefined> {
+    return (await this.store.getKey<SignedPreKey>('signed-pre-key', String(keyId))) || undefined;
+  }
+
+  async storeSignedPreKey(signedPreKey: SignedPreKey): Promise<void> {
+    await this.store.setKey('signed-pre-key', String(signedPreKey.keyId), signedPreKey);
+  }
+
+  async loadSession(address: string): Promise<SessionRecord | undefined> {
+    return (await this.store.getKey<SessionRecord>('session', address)) || undefined;
+  }
+
+  async storeSession(address: string, record: SessionRecord): Promise<void> {
+    await this.store.setKey('session', address, record);
+  }
+
+  async removeSession(address: string): Promise<void> {
+    await this.store.deleteKey('session', address);
+  }
+
+  async loadSenderKey(name: string): Promise<SenderKeyRecord | undefined> {
+    return (await this.store.getKey<SenderKeyRecord>('sender-key', name)) || undefined;
+  }
+
+  async storeSenderKey(name: string, record: SenderKeyRecord): Promise<void> {
+    await this.store.setKey('sender-key', name, record);
+  }
+
+  async removeSenderKey(name: string): Promise<void> {
+    await this.store.deleteKey('sender-key', name);
+  }
+
+  /**
+   * Load our identity and registration id, generating and saving them on first use
+   * @private
+   */
+  private getLocalIdentity(): Promise<{ identityKeyPair: KeyPair; registrationId: number }> {
+    if (!this.localIdentity) {
+      this.localIdentity = (async () => {
+        const stored = await this.store.getKey('local-identity', 'self');
+        if (stored) return stored;
+
+        const created = { identityKeyPair: generateIdentityKeyPair(), registrationId: generateRegistrationId() };
+        await this.store.setKey('local-identity', 'self', created);
+        return created;
+      })();
+      this.localIdentity.catch(() => { this.localIdentity = null; });
+    }
+
+    return this.localIdentity;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Single-File Auth State Store
+ *
+ * Small embedded database: credentials and all keys live in one JSON
+ * document that is loaded once and rewritten atomically on every change.
+ * Suited to volumes where one file is easier to mount or back up than a
+ * directory. With a passphrase the file is encrypted at rest.
+ */
+
+import { bufferReplacer, bufferReviver } from '../utils/helpers';
+import { AuthStateStore, SessionState } from './store';
+import { FileAuthStateOptions, readJson, writeJson, backupFile, removeBackups } from './file-store';
+import { PassphraseCipher } from './encryption';
+
+/**
+ * Contents of the database file
+ */
+interface AuthStateDocument {
+  credentials: SessionState | null;
+  keys: Record<string, Record<string, any>>;
+}
+
+/**
+ * Auth state stored in a single JSON database file
+ */
+export class SingleFileAuthStateStore implements AuthStateStore {
+  private file: string;
+  private cipher: PassphraseCipher | null;
+  private document: Promise<AuthStateDocument> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Create a new single-file store
+   * @param {String} file Database file path (created on first write)
+   * @param {FileAuthStateOptions} options Passphrase to encrypt the file with
+   */
+  constructor(file: string, options: FileAuthStateOptions = {}) {
+    this.file = file;
+    this.cipher = options.passphrase ? new PassphraseCipher(options.passphrase) : null;
+  }
+
+  async getCredentials(): Promise<SessionState | null> {
+    const { credentials } = await this.load();
+    return credentials ? clone(credentials) : null;
+  }
+
+  async setCredentials(credentials: SessionState): Promise<void> {
+    await this.update(document => {
+      document.credentials = clone(credentials);
+    });
+  }
+
+  async deleteCredentials(): Promise<void> {
+    await this.update(document => {
+      document.credentials = null;
+    });
+  }
+
+  async backupCredentials(label: string): Promise<string | null> {
+    // Let queued writes finish so the copy is a complete file
+    await this.writes;
+    return backupFile(this.file, label);
+  }
+
+  async getKey<T = any>(type: string, id: string): Promise<T | null> {
+    const value = (await this.load()).keys[type]?.[id];
+    return value !== undefined ? clone(value) : null;
+  }
+
+  async setKey<T = any>(type: string, id: string, value: T): Promise<void> {
+    await this.update(document => {
+      document.keys[type] = document.keys[type] || {};
+      document.keys[type][id] = clone(value);
+    });
+  }
+
+  async deleteKey(type: string, id: string): Promise<void> {
+    await this.update(document => {
+      if (document.keys[type]) {
+        delete document.keys[type][id];
+      }
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.update(document => {
+      document.credentials = null;
+      document.keys = {};
+    });
+    await removeBackups(this.file);
+  }
+
+  /**
+   * Load the document once
+   * @private
+   */
+  private load(): Promise<AuthStateDocument> {
+    if (!this.document) {
+      this.document = readJson(this.file, this.cipher).then(
+        (stored: AuthStateDocument | null) => stored || { credentials: null, keys: {} }
+      );
+      // Allow a later call to retry after a failed read
+      this.document.catch(() => { this.document = null; });
+    }
+
+    return this.document;
+  }
+
+  /**
+   * Apply a change and persist the document, one write at a time
+   * @private
+   */
+  private update(change: (document: AuthStateDocument) => void): Promise<void> {
+    const write = this.writes.then(async () => {
+      const document = await this.load();
+      change(document);
+      await writeJson(this.file, document, this.cipher);
+    });
+
+    // Keep the queue going after a failed write; the caller still sees the error
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * Deep copy a JSON value (Buffers included) so callers never share references with the document
+ * @private
+ */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value, bufferReplacer), bufferReviver);
+}
@@ -0,0 +1,103 @@
+/**
+ * Auth State Store
+ *
+ * Storage interface for login credentials and keys. The client reads and
+ * writes its session through an AuthStateStore, so sessions can live on
+ * disk, in memory or in any backend that implements the interface.
+ */
+
+import { bufferReplacer, bufferReviver } from '../utils/helpers';
+
+/**
+ * Persisted login session (binary values are base64 encoded).
+ * `version` is the schema version; older sessions are upgraded on load.
+ */
+export interface SessionState {
+  version: number;
+  clientId: string;
+  privateKey: string;
+  publicKey: string;
+  serverToken: string;
+  clientToken: string;
+  encKey: string;
+  macKey: string;
+  wid: string;
+  noiseKey?: string;
+  advSecret?: string;
+  user?: Record<string, any> | null;
+  timestamp: number;
+}
+
+/**
+ * Pluggable storage backend for credentials and keys.
+ *
+ * Keys are JSON values (Buffers allowed) addressed by a type (e.g. 'session',
+ * 'pre-key') and an id within that type.
+ */
+export interface AuthStateStore {
+  getCredentials(): Promise<SessionState | null>;
+  setCredentials(credentials: SessionState): Promise<void>;
+  deleteCredentials(): Promise<void>;
+
+  getKey<T = any>(type: string, id: string): Promise<T | null>;
+  setKey<T = any>(type: string, id: string, value: T): Promise<void>;
+  deleteKey(type: string, id: string): Promise<void>;
+
+  clear(): Promise<void>;
+
+  // Optional: copy the stored credentials aside before they are migrated
+  backupCredentials?(label: string): Promise<string | null>;
+}
+
+/**
+ * Auth state kept in memory (lost when the process exits).
+ * Values are stored serialized so callers never share references with the store.
+ */
+export class MemoryAuthStateStore implements AuthStateStore {
+  private credentials: string | null = null;
+  private keys: Map<string, string> = new Map();
+
+  async getCredentials(): Promise<SessionState | null> {
+    return this.credentials ? JSON.parse(this.credentials) : null;
+  }
+
+  async setCredentials(credentials: SessionState): Promise<void> {
+    this.credentials = JSON.stringify(credentials);
+  }
+
+  async deleteCredentials(): Promise<void> {
+    this.credentials = null;
+  }
+
+  async backupCredentials(label: string): Promise<string | null> {
+    if (!this.credentials) return null;
+    this.keys.set(keyName('credentials-backup', label), this.credentials);
+    return `memory:credentials-backup:${label}`;
+  }
+
+  async getKey<T = any>(type: string, id: string): Promise<T | null> {
+    const value = this.keys.get(keyName(type, id));
+    return value !== undefined ? JSON.parse(value, bufferReviver) : null;
+  }
+
+  async setKey<T = any>(type: string, id: string, value: T): Promise<void> {
+    this.keys.set(keyName(type, id), JSON.stringify(value, bufferReplacer));
+  }
+
+  async deleteKey(type: string, id: string): Promise<void> {
+    this.keys.delete(keyName(type, id));
+  }
+
+  async clear(): Promise<void> {
+    this.credentials = null;
+    this.keys.clear();
+  }
+}
+
+/**
+ * Combined map key for a key type and id
+ * @private
+ */
+function keyName(type: string, id: string): string {
+  return `${type}:${id}`;
+}
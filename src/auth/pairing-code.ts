@@ -1,104 +1,379 @@
 /**
  * Pairing Code Authentication Module
- * 
+ *
  * This module handles pairing code authentication for WhatsApp Web.
- * This is an alternative to QR code authentication.
+ * This is an alternative to QR code authentication: the companion registers
+ * the phone number with an ephemeral key wrapped by an 8-character code, the
+ * user types the code on the phone, and both sides finish a key exchange
+ * authenticated by that code.
  */
 
 import { EventEmitter } from 'events';
-import { randomBytes } from 'crypto';
-import { CryptoManager } from '../crypto';
+import {
+  createCipheriv,
+  createDecipheriv,
+  hkdfSync,
+  pbkdf2,
+  randomBytes
+} from 'crypto';
+import { promisify } from 'util';
+import { BinaryNode } from '../binary';
+import { KeyPair, generateCurveKeyPair, curveSharedSecret } from '../crypto/curve';
+import { AuthenticationError } from '../utils/errors';
+
+const pbkdf2Async = promisify(pbkdf2);
+
+/**
+ * Characters used by pairing codes (Crockford style base32 without 0, O, I or U, so no two characters look alike)
+ */
+export const PAIRING_CODE_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTVWXYZ';
+export const PAIRING_CODE_LENGTH = 8;
+
+const PAIRING_KEY_ITERATIONS = 2 << 16;
+const SALT_LENGTH = 32;
+const CTR_IV_LENGTH = 16;
+const GCM_IV_LENGTH = 12;
+const KEY_BUNDLE_INFO = 'link_code_pairing_key_bundle_encryption_key';
+const ADV_SECRET_INFO = 'adv_secret';
+
+/**
+ * Companion identity, platform and timing options
+ */
+export interface PairingCodeOptions {
+  clientId?: string;
+  pairingTimeout?: number;
+  identityKeyPair?: KeyPair;
+  platformId?: string;
+  platformDisplay?: string;
+}
+
+/**
+ * Primary (phone) keys received when the user confirms the code
+ */
+export interface PrimaryHello {
+  ref: string;
+  wrappedEphemeralKey: Buffer;
+  identityKey: Buffer;
+}
+
+/**
+ * In-flight pairing request
+ */
+interface PendingPairing {
+  phoneNumber: string;
+  code: string;
+  ephemeralKeyPair: KeyPair;
+  ref: string | null;
+}
+
+/**
+ * Generate a random pairing code (40 bits of entropy)
+ * @returns {String} 8-character code
+ */
+export function generatePairingCode(): string {
+  const bytes = randomBytes(5);
+  let value = 0;
+  let bits = 0;
+  let code = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      code += PAIRING_CODE_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  return code;
+}
+
+/**
+ * Derive the key that wraps the ephemeral keys from a pairing code
+ * @param {String} code Pairing code
+ * @param {Buffer} salt 32 byte salt
+ * @returns {Promise<Buffer>} 32 byte AES key
+ */
+export function derivePairingKey(code: string, salt: Buffer): Promise<Buffer> {
+  return pbkdf2Async(code, salt, PAIRING_KEY_ITERATIONS, 32, 'sha256');
+}
+
+/**
+ * Wrap an ephemeral public key with a pairing code
+ * @param {String} code Pairing code
+ * @param {Buffer} publicKey Ephemeral public key
+ * @returns {Promise<Buffer>} salt + IV + AES-256-CTR ciphertext
+ */
+export async function wrapEphemeralKey(code: string, publicKey: Buffer): Promise<Buffer> {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(CTR_IV_LENGTH);
+  const key = await derivePairingKey(code, salt);
+  const cipher = createCipheriv('aes-256-ctr', key, iv);
+
+  return Buffer.concat([salt, iv, cipher.update(publicKey), cipher.final()]);
+}
+
+/**
+ * Unwrap an ephemeral public key with a pairing code
+ * @param {String} code Pairing code
+ * @param {Buffer} wrapped salt + IV + AES-256-CTR ciphertext
+ * @returns {Promise<Buffer>} Ephemeral public key (garbage if the code is wrong)
+ */
+export async function unwrapEphemeralKey(code: string, wrapped: Buffer): Promise<Buffer> {
+  if (wrapped.length !== SALT_LENGTH + CTR_IV_LENGTH + 32) {
+    throw new AuthenticationError(`Wrapped ephemeral key has invalid length ${wrapped.length}`, 'INVALID_PAIRING_KEY');
+  }
+
+  const salt = wrapped.subarray(0, SALT_LENGTH);
+  const iv = wrapped.subarray(SALT_LENGTH, SALT_LENGTH + CTR_IV_LENGTH);
+  const key = await derivePairingKey(code, salt);
+  const decipher = createDecipheriv('aes-256-ctr', key, iv);
+
+  return Buffer.concat([decipher.update(wrapped.subarray(SALT_LENGTH + CTR_IV_LENGTH)), decipher.final()]);
+}
+
+/**
+ * Encrypt the companion key bundle with the shared ephemeral secret
+ * @param {Buffer} sharedSecret Ephemeral Diffie-Hellman output
+ * @param {Buffer} bundle Companion identity + primary identity + random
+ * @returns {Buffer} salt + IV + AES-256-GCM ciphertext and tag
+ */
+export function encryptKeyBundle(sharedSecret: Buffer, bundle: Buffer): Buffer {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(GCM_IV_LENGTH);
+  const key = Buffer.from(hkdfSync('sha256', sharedSecret, salt, KEY_BUNDLE_INFO, 32));
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(bundle), cipher.final()]);
+
+  return Buffer.concat([salt, iv, encrypted, cipher.getAuthTag()]);
+}
+
+/**
+ * Decrypt a key bundle produced by encryptKeyBundle
+ * @param {Buffer} sharedSecret Ephemeral Diffie-Hellman output
+ * @param {Buffer} data salt + IV + AES-256-GCM ciphertext and tag
+ * @returns {Buffer} Key bundle
+ */
+export function decryptKeyBundle(sharedSecret: Buffer, data: Buffer): Buffer {
+  const salt = data.subarray(0, SALT_LENGTH);
+  const iv = data.subarray(SALT_LENGTH, SALT_LENGTH + GCM_IV_LENGTH);
+  const encrypted = data.subarray(SALT_LENGTH + GCM_IV_LENGTH, data.length - 16);
+  const key = Buffer.from(hkdfSync('sha256', sharedSecret, salt, KEY_BUNDLE_INFO, 32));
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(data.subarray(data.length - 16));
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+  } catch (error) {
+    throw new AuthenticationError('Key bundle could not be decrypted (wrong pairing code?)', 'BAD_PAIRING_CODE');
+  }
+}
+
+/**
+ * Derive the secret both devices share once pairing completes
+ * @param {Buffer} identitySharedKey Identity Diffie-Hellman output
+ * @param {Buffer} random Random bytes from the key bundle
+ * @returns {Buffer} 32 byte secret
+ */
+export function deriveAdvSecret(identitySharedKey: Buffer, random: Buffer): Buffer {
+  return Buffer.from(hkdfSync('sha256', Buffer.concat([identitySharedKey, random]), Buffer.alloc(0), ADV_SECRET_INFO, 32));
+}
 
 /**
- * Pairing code authenticator for WhatsApp Web
+ * Pairing code authenticator for WhatsApp Web.
+ *
+ * Events:
+ * - 'pairing_requested' ({ clientId, publicKey, phoneNumber, node }) when a hello is built
+ * - 'pairing_code' (code) once the server accepted the hello
+ * - 'pairing_confirmed' ({ phoneNumber }) when the phone entered the code
+ * - 'pairing_expired' when the code was not confirmed in time
  */
 export class PairingCodeAuthenticator extends EventEmitter {
   private clientId: string;
-  private keypair: { privateKey: string; publicKey: string };
+  private keypair: KeyPair;
   private pairingTimeout: number;
+  private platformId: string;
+  private platformDisplay: string;
   private phoneNumber: string | null = null;
+  private pending: PendingPairing | null = null;
+  private advSecret: Buffer | null = null;
   private pairingTimer: NodeJS.Timeout | null = null;
 
   /**
    * Create a new pairing code authenticator
-   * @param {Object} options Authentication options
+   * @param {PairingCodeOptions} options Authentication options
    */
-  constructor(options: { 
-    clientId?: string; 
-    pairingTimeout?: number;
-  } = {}) {
+  constructor(options: PairingCodeOptions = {}) {
     super();
-    
+
     // Generate client ID if not provided
     this.clientId = options.clientId || randomBytes(16).toString('hex');
-    
-    // Generate keypair for encryption
-    this.keypair = CryptoManager.generateKeyPair();
-    
+
+    // Identity key the phone links to (the session login key)
+    this.keypair = options.identityKeyPair || generateCurveKeyPair();
+
     // Set timeouts
     this.pairingTimeout = options.pairingTimeout || 60000; // 60 seconds
+
+    this.platformId = options.platformId || '1';
+    this.platformDisplay = options.platformDisplay || 'Chrome (Linux)';
   }
 
   /**
-   * Request a pairing code for authentication
+   * Start linking a phone number: generates the code and the companion hello
    * @param {String} phoneNumber Phone number in international format (e.g. +1234567890)
-   * @returns {Promise<void>}
+   * @param {Buffer} serverAuthKey Public Noise static key of this companion
+   * @returns {Promise<BinaryNode>} Hello node to send to the server
    */
-  async requestPairingCode(phoneNumber: string): Promise<void> {
+  async requestPairingCode(phoneNumber: string, serverAuthKey: Buffer = this.keypair.publicKey): Promise<BinaryNode> {
     // Validate phone number
     if (!phoneNumber || !phoneNumber.match(/^\+?[0-9]{10,15}$/)) {
       throw new Error('Invalid phone number format. Use international format (e.g. +1234567890)');
     }
-    
+
     // Clean up phone number
     this.phoneNumber = phoneNumber.replace(/[^0-9]/g, '');
-    
+
     // Clear any existing timers
     this.clearTimers();
-    
+
+    const code = generatePairingCode();
+    const ephemeralKeyPair = generateCurveKeyPair();
+    const wrappedKey = await wrapEphemeralKey(code, ephemeralKeyPair.publicKey);
+
+    this.pending = { phoneNumber: this.phoneNumber, code, ephemeralKeyPair, ref: null };
+
     // Set timeout for pairing code expiration
     this.pairingTimer = setTimeout(() => {
+      this.pending = null;
       this.emit('pairing_expired');
     }, this.pairingTimeout);
-    
-    // Emit event to request pairing code from server
+
+    const node: BinaryNode = {
+      tag: 'iq',
+      attrs: { type: 'set', xmlns: 'md', to: 's.whatsapp.net' },
+      content: [{
+        tag: 'link_code_companion_reg',
+        attrs: {
+          jid: `${this.phoneNumber}@s.whatsapp.net`,
+          stage: 'companion_hello',
+          should_show_push_notification: 'true'
+        },
+        content: [
+          { tag: 'link_code_pairing_wrapped_companion_ephemeral_pub', attrs: {}, content: wrappedKey },
+          { tag: 'companion_server_auth_key_pub', attrs: {}, content: serverAuthKey },
+          { tag: 'companion_platform_id', attrs: {}, content: this.platformId },
+          { tag: 'companion_platform_display', attrs: {}, content: this.platformDisplay },
+          { tag: 'link_code_pairing_nonce', attrs: {}, content: '0' }
+        ]
+      }]
+    };
+
     this.emit('pairing_requested', {
       clientId: this.clientId,
-      publicKey: this.keypair.publicKey,
-      phoneNumber: this.phoneNumber
+      publicKey: this.keypair.publicKey.toString('base64'),
+      phoneNumber: this.phoneNumber,
+      node
     });
-    
-    // Note: The actual pairing code will be received from the server
-    // and emitted through the 'pairing_code' event by the client implementation
+
+    return node;
+  }
+
+  /**
+   * Handle the server's answer to the companion hello and release the code
+   * @param {BinaryNode} response Response to the hello node
+   * @returns {String} Pairing code to type on the phone
+   */
+  handleHelloResponse(response: BinaryNode): string {
+    if (!this.pending) {
+      throw new AuthenticationError('No pairing in progress. Call requestPairingCode() first.', 'NO_PAIRING');
+    }
+
+    const reg = findChild(response, 'link_code_companion_reg');
+    const ref = reg && findChild(reg, 'link_code_pairing_ref');
+    if (!ref || ref.content === null || Array.isArray(ref.content)) {
+      throw new AuthenticationError('Pairing response has no pairing ref', 'INVALID_PAIRING_RESPONSE');
+    }
+
+    this.pending.ref = ref.content.toString();
+    this.emit('pairing_code', this.pending.code);
+
+    return this.pending.code;
   }
 
   /**
-   * Set pairing code (usually called by the client when received from server)
-   * @param {String} pairingCode The pairing code from the server
+   * Complete the key exchange once the phone confirmed the code
+   * @param {BinaryNode} notification link_code_companion_reg notification from the server
+   * @returns {Promise<BinaryNode>} Finish node to send to the server
    */
-  setPairingCode(pairingCode: string): void {
-    if (!this.phoneNumber) {
-      throw new Error('No phone number set. Call requestPairingCode() first.');
+  async finishPairing(notification: BinaryNode): Promise<BinaryNode> {
+    if (!this.pending || !this.pending.ref) {
+      throw new AuthenticationError('No pairing is waiting for confirmation (expired?)', 'NO_PAIRING');
     }
-    
-    this.emit('pairing_code', pairingCode);
+
+    const hello = parsePrimaryHello(notification);
+    if (hello.ref !== this.pending.ref) {
+      throw new AuthenticationError('Pairing ref does not match the pending request', 'PAIRING_REF_MISMATCH');
+    }
+
+    const { code, ephemeralKeyPair, phoneNumber } = this.pending;
+    const primaryEphemeralKey = await unwrapEphemeralKey(code, hello.wrappedEphemeralKey);
+    const sharedEphemeral = curveSharedSecret(ephemeralKeyPair.privateKey, primaryEphemeralKey);
+
+    const random = randomBytes(32);
+    const keyBundle = encryptKeyBundle(
+      sharedEphemeral,
+      Buffer.concat([this.keypair.publicKey, hello.identityKey, random])
+    );
+
+    const identitySharedKey = curveSharedSecret(this.keypair.privateKey, hello.identityKey);
+    this.advSecret = deriveAdvSecret(identitySharedKey, random);
+
+    this.clearTimers();
+    this.pending = null;
+    this.emit('pairing_confirmed', { phoneNumber });
+
+    return {
+      tag: 'iq',
+      attrs: { type: 'set', xmlns: 'md', to: 's.whatsapp.net' },
+      content: [{
+        tag: 'link_code_companion_reg',
+        attrs: { jid: `${phoneNumber}@s.whatsapp.net`, stage: 'companion_finish' },
+        content: [
+          { tag: 'link_code_pairing_wrapped_key_bundle', attrs: {}, content: keyBundle },
+          { tag: 'companion_identity_public', attrs: {}, content: this.keypair.publicKey },
+          { tag: 'link_code_pairing_ref', attrs: {}, content: hello.ref }
+        ]
+      }]
+    };
+  }
+
+  /**
+   * Whether a pairing code is waiting to be confirmed on the phone
+   * @returns {Boolean}
+   */
+  isPending(): boolean {
+    return this.pending !== null;
   }
 
   /**
    * Get authentication credentials
    * @returns {Object} Authentication credentials
    */
-  getCredentials(): { 
-    clientId: string; 
-    privateKey: string; 
-    publicKey: string; 
+  getCredentials(): {
+    clientId: string;
+    privateKey: string;
+    publicKey: string;
     phoneNumber: string | null;
+    advSecret: string | null;
   } {
     return {
       clientId: this.clientId,
-      privateKey: this.keypair.privateKey,
-      publicKey: this.keypair.publicKey,
-      phoneNumber: this.phoneNumber
+      privateKey: this.keypair.privateKey.toString('base64'),
+      publicKey: this.keypair.publicKey.toString('base64'),
+      phoneNumber: this.phoneNumber,
+      advSecret: this.advSecret ? this.advSecret.toString('base64') : null
     };
   }
 
@@ -118,5 +393,44 @@ export class PairingCodeAuthenticator extends EventEmitter {
   reset(): void {
     this.clearTimers();
     this.phoneNumber = null;
+    this.pending = null;
+    this.advSecret = null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Read the primary keys out of a link_code_companion_reg notification
+ * @param {BinaryNode} notification Notification node
+ * @returns {PrimaryHello} Pairing ref and primary keys
+ */
+export function parsePrimaryHello(notification: BinaryNode): PrimaryHello {
+  const reg = notification.tag === 'link_code_companion_reg'
+    ? notification
+    : findChild(notification, 'link_code_companion_reg');
+  const ref = reg && findChild(reg, 'link_code_pairing_ref');
+  const wrapped = reg && findChild(reg, 'link_code_pairing_wrapped_primary_ephemeral_pub');
+  const identity = reg && findChild(reg, 'primary_identity_pub');
+
+  if (!ref || !wrapped || !identity || !Buffer.isBuffer(wrapped.content) || !Buffer.isBuffer(identity.content)) {
+    throw new AuthenticationError('Pairing notification is missing primary keys', 'INVALID_PAIRING_NOTIFICATION');
+  }
+
+  return {
+    ref: String(ref.content),
+    wrappedEphemeralKey: wrapped.content,
+    identityKey: identity.content
+  };
+}
+
+/**
+ * Find the first child node with a tag
+ * @param {BinaryNode} node Parent node
+ * @param {String} tag Child tag
+ * @returns {BinaryNode|undefined} Child node
+ * @private
+ */
+function findChild(node: BinaryNode, tag: string): BinaryNode | undefined {
+  return Array.isArray(node.content)
+    ? node.content.find(child => child.tag === tag)
+    : undefined;
+}
@@ -9,6 +9,7 @@ import { EventEmitter } from 'events';
 import * as qrcode from 'qrcode-terminal';
 import { randomBytes } from 'crypto';
 import { CryptoManager } from '../crypto';
+import { QRRenderer, QRRenderOptions, RenderedQR } from '../qr';
 
 /**
  * QR code authenticator for WhatsApp Web
@@ -89,6 +90,19 @@ export class QRAuthenticator extends EventEmitter {
     qrcode.generate(qrData, { small });
   }
 
+  /**
+   * Render the QR code as PNG/SVG files, a data URL and terminal art
+   * @param {QRRenderOptions} options Outputs, size and error-correction level
+   * @returns {Promise<RenderedQR>} Rendered outputs
+   */
+  async renderQR(options: QRRenderOptions = {}): Promise<RenderedQR> {
+    if (!this.qrData) {
+      throw new Error('No QR data available. Call generateQR() first.');
+    }
+    
+    return new QRRenderer(options).render(this.qrData);
+  }
+
   /**
    * Get authentication credentials
    * @returns {Object} Authentication credentials
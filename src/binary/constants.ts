@@ -0,0 +1,51 @@
+/**
+ * Binary Protocol Constants
+ *
+ * Token dictionary and tag values used by the WhatsApp Web binary protocol.
+ * Based on reverse engineering from sigalor/whatsapp-web-reveng
+ */
+
+/**
+ * Single byte token dictionary (indices 3..235 are valid tokens)
+ */
+export const WA_TOKENS = [
+  '', '', '', 'stream:start', '', 'stream:features', '', '', '', '', '', '', '', '', '1', '1.0',
+  'ack', 'action', 'add', 'after', 'archive', 'author', 'available', 'battery', 'before', 'body',
+  'broadcast', 'chat', 'class', 'clean', 'code', 'composing', 'config', 'create', 'debug',
+  'delete', 'demote', 'duplicate', 'encoding', 'error', 'false', 'filehash', 'from', 'g.us',
+  'group', 'groups_v2', 'height', 'id', 'image', 'in', 'index', 'invis', 'item', 'jid', 'kind',
+  'last', 'leave', 'live', 'log', 'media', 'message', 'mimetype', 'missing', 'modify', 'name',
+  'notification', 'notify', 'out', 'owner', 'participant', 'paused', 'picture', 'played',
+  'presence', 'preview', 'promote', 'query', 'quoted', 'read', 'receipt', 'received', 'recipient',
+  'recording', 'relay', 'remove', 'response', 'resume', 'retry', 's.whatsapp.net', 'seconds',
+  'set', 'size', 'status', 'subject', 'subscribe', 't', 'text', 'to', 'true', 'type', 'unarchive',
+  'unavailable', 'url', 'user', 'value', 'web', 'width', 'mute', 'read_only', 'admin', 'creator',
+  'short', 'update', 'powersave', 'checksum', 'epoch', 'block', 'previous', '409', 'replaced',
+  'reason', 'spam', 'modify_tag', 'message_tag', 'delivery', 'emoji', 'title', 'description',
+  'canonical-url', 'matched-text', 'star', 'unstar', 'media_key', 'filename', 'identity',
+  'unread', 'page', 'page_size', 'download', 'business', 'verified_name', 'location',
+  'document', 'audio', 'video', 'init', 'platform', 'version'
+];
+
+/**
+ * Double byte token dictionaries, addressed by DICTIONARY_0..DICTIONARY_3
+ * followed by a one byte index. The legacy web protocol ships them empty.
+ */
+export const WA_DOUBLE_BYTE_TOKENS: string[][] = [[], [], [], []];
+
+export const WA_TAGS = {
+  LIST_EMPTY: 0,
+  STREAM_8: 2,
+  DICTIONARY_0: 236,
+  DICTIONARY_1: 237,
+  DICTIONARY_2: 238,
+  DICTIONARY_3: 239,
+  LIST_8: 248,
+  LIST_16: 249,
+  JID_PAIR: 250,
+  HEX_8: 251,
+  BINARY_8: 252,
+  BINARY_20: 253,
+  BINARY_32: 254,
+  NIBBLE_8: 255
+};
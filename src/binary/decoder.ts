@@ -0,0 +1,318 @@
+/**
+ * Binary Node Decoder
+ *
+ * This module decodes WhatsApp Web binary frames into a structured node tree.
+ * Every node is a list of the form [tag, ...attributePairs, content?].
+ */
+
+import { WA_TOKENS, WA_DOUBLE_BYTE_TOKENS, WA_TAGS } from './constants';
+import { BinaryNode, BinaryNodeAttributes } from './types';
+
+/**
+ * Stateful reader over a single binary frame
+ */
+export class BinaryDecoder {
+  private data: Buffer;
+  private index = 0;
+
+  /**
+   * Create a new decoder
+   * @param {Buffer} data Raw frame data
+   */
+  constructor(data: Buffer) {
+    this.data = data;
+  }
+
+  /**
+   * Read the root node of the frame
+   * @returns {BinaryNode} Decoded node
+   */
+  readNode(): BinaryNode {
+    const listSize = this.readListSize(this.readByte());
+    const descrTag = this.readByte();
+
+    if (descrTag === WA_TAGS.STREAM_8) {
+      throw new Error('Unexpected stream end');
+    }
+
+    const tag = this.readString(descrTag);
+    if (listSize === 0 || !tag) {
+      throw new Error('Invalid node');
+    }
+
+    const attrs = this.readAttributes((listSize - 1) >> 1);
+
+    if (listSize % 2 === 1) {
+      return { tag, attrs, content: null };
+    }
+
+    const contentTag = this.readByte();
+    let content: BinaryNode[] | Buffer | string;
+
+    if (this.isListTag(contentTag)) {
+      content = this.readList(contentTag);
+    } else if (contentTag === WA_TAGS.BINARY_8) {
+      content = this.readBytes(this.readByte());
+    } else if (contentTag === WA_TAGS.BINARY_20) {
+      content = this.readBytes(this.readInt20());
+    } else if (contentTag === WA_TAGS.BINARY_32) {
+      content = this.readBytes(this.readInt(4));
+    } else {
+      content = this.readString(contentTag);
+    }
+
+    return { tag, attrs, content };
+  }
+
+  /**
+   * Read a list of child nodes
+   * @param {Number} tag List tag
+   * @returns {BinaryNode[]} Child nodes
+   * @private
+   */
+  private readList(tag: number): BinaryNode[] {
+    const size = this.readListSize(tag);
+    const nodes: BinaryNode[] = [];
+    for (let i = 0; i < size; i++) {
+      nodes.push(this.readNode());
+    }
+    return nodes;
+  }
+
+  /**
+   * Read attribute key/value pairs
+   * @param {Number} count Number of pairs
+   * @returns {Object} Attributes
+   * @private
+   */
+  private readAttributes(count: number): BinaryNodeAttributes {
+    const attrs: BinaryNodeAttributes = {};
+    for (let i = 0; i < count; i++) {
+      const key = this.readString(this.readByte());
+      attrs[key] = this.readString(this.readByte());
+    }
+    return attrs;
+  }
+
+  /**
+   * Read a string encoded with the given tag
+   * @param {Number} tag String tag
+   * @returns {String} Decoded string
+   * @private
+   */
+  private readString(tag: number): string {
+    if (tag >= 3 && tag < WA_TAGS.DICTIONARY_0) {
+      return this.getToken(tag);
+    }
+
+    switch (tag) {
+      case WA_TAGS.DICTIONARY_0:
+      case WA_TAGS.DICTIONARY_1:
+      case WA_TAGS.DICTIONARY_2:
+      case WA_TAGS.DICTIONARY_3:
+        return this.getDoubleByteToken(tag - WA_TAGS.DICTIONARY_0, this.readByte());
+
+      case WA_TAGS.LIST_EMPTY:
+        return '';
+
+      case WA_TAGS.BINARY_8:
+        return this.readBytes(this.readByte()).toString('utf8');
+
+      case WA_TAGS.BINARY_20:
+        return this.readBytes(this.readInt20()).toString('utf8');
+
+      case WA_TAGS.BINARY_32:
+        return this.readBytes(this.readInt(4)).toString('utf8');
+
+      case WA_TAGS.JID_PAIR: {
+        const user = this.readString(this.readByte());
+        const server = this.readString(this.readByte());
+        if (!server) {
+          throw new Error('Invalid JID pair: missing server');
+        }
+        return user ? `${user}@${server}` : server;
+      }
+
+      case WA_TAGS.NIBBLE_8:
+      case WA_TAGS.HEX_8:
+        return this.readPacked8(tag);
+
+      default:
+        throw new Error(`Invalid string tag: ${tag}`);
+    }
+  }
+
+  /**
+   * Read a nibble or hex packed string
+   * @param {Number} tag NIBBLE_8 or HEX_8
+   * @returns {String} Unpacked string
+   * @private
+   */
+  private readPacked8(tag: number): string {
+    const startByte = this.readByte();
+    let value = '';
+
+    for (let i = 0; i < (startByte & 0x7F); i++) {
+      const byte = this.readByte();
+      value += this.unpackByte(tag, (byte & 0xF0) >> 4);
+      value += this.unpackByte(tag, byte & 0x0F);
+    }
+
+    // High bit signals an odd length, so the last half byte is padding
+    if (startByte >> 7) {
+      value = value.slice(0, -1);
+    }
+
+    return value;
+  }
+
+  /**
+   * Unpack a single half byte
+   * @param {Number} tag NIBBLE_8 or HEX_8
+   * @param {Number} value Half byte value
+   * @returns {String} Character
+   * @private
+   */
+  private unpackByte(tag: number, value: number): string {
+    if (tag === WA_TAGS.HEX_8) {
+      return '0123456789ABCDEF'[value];
+    }
+
+    if (value >= 0 && value <= 9) return String(value);
+    if (value === 10) return '-';
+    if (value === 11) return '.';
+    if (value === 15) return '\0';
+
+    throw new Error(`Invalid nibble: ${value}`);
+  }
+
+  /**
+   * Resolve a single byte token
+   * @param {Number} index Token index
+   * @returns {String} Token
+   * @private
+   */
+  private getToken(index: number): string {
+    if (index >= WA_TOKENS.length) {
+      throw new Error(`Invalid token index: ${index}`);
+    }
+    return WA_TOKENS[index];
+  }
+
+  /**
+   * Resolve a double byte token
+   * @param {Number} dictionary Dictionary number (0-3)
+   * @param {Number} index Token index within the dictionary
+   * @returns {String} Token
+   * @private
+   */
+  private getDoubleByteToken(dictionary: number, index: number): string {
+    const token = WA_DOUBLE_BYTE_TOKENS[dictionary]?.[index];
+    if (token === undefined) {
+      throw new Error(`Invalid double byte token: ${dictionary}/${index}`);
+    }
+    return token;
+  }
+
+  /**
+   * Read the size of a list
+   * @param {Number} tag List tag
+   * @returns {Number} List size
+   * @private
+   */
+  private readListSize(tag: number): number {
+    switch (tag) {
+      case WA_TAGS.LIST_EMPTY:
+        return 0;
+      case WA_TAGS.LIST_8:
+        return this.readByte();
+      case WA_TAGS.LIST_16:
+        return this.readInt(2);
+      default:
+        throw new Error(`Invalid list tag: ${tag}`);
+    }
+  }
+
+  /**
+   * Check whether a tag starts a list
+   * @param {Number} tag Tag
+   * @returns {Boolean} Whether tag is a list tag
+   * @private
+   */
+  private isListTag(tag: number): boolean {
+    return tag === WA_TAGS.LIST_EMPTY || tag === WA_TAGS.LIST_8 || tag === WA_TAGS.LIST_16;
+  }
+
+  /**
+   * Read a 20 bit big endian integer
+   * @returns {Number} Value
+   * @private
+   */
+  private readInt20(): number {
+    this.checkEOS(3);
+    const value = ((this.data[this.index] & 0x0F) << 16) |
+      (this.data[this.index + 1] << 8) |
+      this.data[this.index + 2];
+    this.index += 3;
+    return value;
+  }
+
+  /**
+   * Read a big endian integer
+   * @param {Number} length Number of bytes
+   * @returns {Number} Value
+   * @private
+   */
+  private readInt(length: number): number {
+    this.checkEOS(length);
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = value * 256 + this.data[this.index + i];
+    }
+    this.index += length;
+    return value;
+  }
+
+  /**
+   * Read a single byte
+   * @returns {Number} Byte
+   * @private
+   */
+  private readByte(): number {
+    this.checkEOS(1);
+    return this.data[this.index++];
+  }
+
+  /**
+   * Read raw bytes
+   * @param {Number} length Number of bytes
+   * @returns {Buffer} Bytes
+   * @private
+   */
+  private readBytes(length: number): Buffer {
+    this.checkEOS(length);
+    const bytes = this.data.subarray(this.index, this.index + length);
+    this.index += length;
+    return Buffer.from(bytes);
+  }
+
+  /**
+   * Ensure enough bytes remain in the frame
+   * @param {Number} length Number of bytes required
+   * @private
+   */
+  private checkEOS(length: number): void {
+    if (this.index + length > this.data.length) {
+      throw new Error('End of stream reached');
+    }
+  }
+}
+
+/**
+ * Decode a binary frame into a node tree
+ * @param {Buffer} data Raw frame data
+ * @returns {BinaryNode} Root node
+ */
+export function decodeBinaryNode(data: Buffer): BinaryNode {
+  return new BinaryDecoder(data).readNode();
+}
@@ -0,0 +1,238 @@
+/**
+ * Binary Node Encoder
+ *
+ * This module encodes typed nodes into WhatsApp Web binary frames.
+ * It is the exact counterpart of the decoder in ./decoder.
+ */
+
+import { WA_TOKENS, WA_TAGS } from './constants';
+import { BinaryNode, BinaryNodeContent } from './types';
+
+/**
+ * Maximum number of characters a packed string can hold (127 bytes)
+ */
+const MAX_PACKED_LENGTH = 254;
+
+/**
+ * Writer that accumulates a single binary frame
+ */
+export class BinaryEncoder {
+  private bytes: number[] = [];
+
+  /**
+   * Write a node (and its children) to the frame
+   * @param {BinaryNode} node Node to write
+   * @returns {BinaryEncoder} This encoder
+   */
+  writeNode(node: BinaryNode): BinaryEncoder {
+    if (!node.tag) {
+      throw new Error('Invalid node: missing tag');
+    }
+
+    const attrs = Object.entries(node.attrs || {})
+      .filter(([, value]) => value !== undefined && value !== null);
+    const hasContent = node.content !== null && node.content !== undefined;
+
+    this.writeListStart(2 * attrs.length + 1 + (hasContent ? 1 : 0));
+    this.writeString(node.tag);
+
+    for (const [key, value] of attrs) {
+      this.writeString(key);
+      this.writeString(String(value));
+    }
+
+    if (hasContent) {
+      this.writeContent(node.content);
+    }
+
+    return this;
+  }
+
+  /**
+   * Get the encoded frame
+   * @returns {Buffer} Frame data
+   */
+  toBuffer(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+
+  /**
+   * Write node content
+   * @param {BinaryNodeContent} content Children, bytes or string
+   * @private
+   */
+  private writeContent(content: BinaryNodeContent): void {
+    if (Array.isArray(content)) {
+      this.writeListStart(content.length);
+      content.forEach(child => this.writeNode(child));
+    } else if (Buffer.isBuffer(content)) {
+      this.writeBytes(content);
+    } else if (typeof content === 'string') {
+      this.writeString(content);
+    } else {
+      throw new Error(`Invalid node content: ${typeof content}`);
+    }
+  }
+
+  /**
+   * Write the start of a list
+   * @param {Number} size List size
+   * @private
+   */
+  private writeListStart(size: number): void {
+    if (size === 0) {
+      this.bytes.push(WA_TAGS.LIST_EMPTY);
+    } else if (size < 256) {
+      this.bytes.push(WA_TAGS.LIST_8, size);
+    } else {
+      this.bytes.push(WA_TAGS.LIST_16);
+      this.writeInt(size, 2);
+    }
+  }
+
+  /**
+   * Write a string using the most compact representation
+   * @param {String} str String to write
+   * @private
+   */
+  private writeString(str: string): void {
+    const tokenIndex = WA_TOKENS.indexOf(str);
+    if (tokenIndex >= 3 && tokenIndex < WA_TAGS.DICTIONARY_0) {
+      this.bytes.push(tokenIndex);
+      return;
+    }
+
+    if (str === '') {
+      this.bytes.push(WA_TAGS.LIST_EMPTY);
+      return;
+    }
+
+    const atIndex = str.indexOf('@');
+    if (atIndex > 0 && atIndex < str.length - 1) {
+      this.writeJid(str.slice(0, atIndex), str.slice(atIndex + 1));
+      return;
+    }
+
+    if (this.isPackable(str, WA_TAGS.NIBBLE_8)) {
+      this.writePacked8(str, WA_TAGS.NIBBLE_8);
+    } else if (this.isPackable(str, WA_TAGS.HEX_8)) {
+      this.writePacked8(str, WA_TAGS.HEX_8);
+    } else {
+      this.writeBytes(Buffer.from(str, 'utf8'));
+    }
+  }
+
+  /**
+   * Write a JID as a user/server pair
+   * @param {String} user User part (may be empty)
+   * @param {String} server Server part
+   * @private
+   */
+  private writeJid(user: string, server: string): void {
+    this.bytes.push(WA_TAGS.JID_PAIR);
+
+    if (user) {
+      this.writeString(user);
+    } else {
+      this.bytes.push(WA_TAGS.LIST_EMPTY);
+    }
+
+    this.writeString(server);
+  }
+
+  /**
+   * Write raw bytes with a length prefix
+   * @param {Buffer} data Bytes to write
+   * @private
+   */
+  private writeBytes(data: Buffer): void {
+    if (data.length < 256) {
+      this.bytes.push(WA_TAGS.BINARY_8, data.length);
+    } else if (data.length < (1 << 20)) {
+      this.bytes.push(WA_TAGS.BINARY_20);
+      this.writeInt(data.length, 3);
+    } else {
+      this.bytes.push(WA_TAGS.BINARY_32);
+      this.writeInt(data.length, 4);
+    }
+
+    for (const byte of data) {
+      this.bytes.push(byte);
+    }
+  }
+
+  /**
+   * Check whether a string can be nibble or hex packed
+   * @param {String} str String to check
+   * @param {Number} tag NIBBLE_8 or HEX_8
+   * @returns {Boolean} Whether the string is packable
+   * @private
+   */
+  private isPackable(str: string, tag: number): boolean {
+    if (str.length > MAX_PACKED_LENGTH) {
+      return false;
+    }
+
+    const pattern = tag === WA_TAGS.NIBBLE_8 ? /^[0-9.-]+$/ : /^[0-9A-F]+$/;
+    return pattern.test(str);
+  }
+
+  /**
+   * Write a nibble or hex packed string
+   * @param {String} str String to write
+   * @param {Number} tag NIBBLE_8 or HEX_8
+   * @private
+   */
+  private writePacked8(str: string, tag: number): void {
+    const odd = str.length % 2 === 1;
+    const padded = odd ? str + '\0' : str;
+
+    this.bytes.push(tag, (odd ? 0x80 : 0) | (padded.length / 2));
+
+    for (let i = 0; i < padded.length; i += 2) {
+      this.bytes.push((this.packByte(tag, padded[i]) << 4) | this.packByte(tag, padded[i + 1]));
+    }
+  }
+
+  /**
+   * Pack a single character into a half byte
+   * @param {Number} tag NIBBLE_8 or HEX_8
+   * @param {String} char Character to pack
+   * @returns {Number} Half byte value
+   * @private
+   */
+  private packByte(tag: number, char: string): number {
+    if (char === '\0') {
+      return 15;
+    }
+
+    if (tag === WA_TAGS.HEX_8) {
+      return parseInt(char, 16);
+    }
+
+    if (char === '-') return 10;
+    if (char === '.') return 11;
+    return char.charCodeAt(0) - 48;
+  }
+
+  /**
+   * Write a big endian integer
+   * @param {Number} value Value to write
+   * @param {Number} length Number of bytes
+   * @private
+   */
+  private writeInt(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.bytes.push(Math.floor(value / Math.pow(256, i)) & 0xFF);
+    }
+  }
+}
+
+/**
+ * Encode a node into a binary frame
+ * @param {BinaryNode} node Root node
+ * @returns {Buffer} Frame data
+ */
+export function encodeBinaryNode(node: BinaryNode): Buffer {
+  return new BinaryEncoder().writeNode(node).toBuffer();
+}
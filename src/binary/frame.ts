@@ -0,0 +1,82 @@
+/**
+ * Message Tag Framing
+ *
+ * Every frame on the wire is prefixed with a message tag followed by a comma
+ * ("<tag>,<payload>"). Responses carry the tag of the request they answer.
+ */
+
+import { randomBytes } from 'crypto';
+
+/**
+ * Frame split into its message tag and payload
+ */
+export interface TaggedFrame {
+  tag: string | null;
+  payload: Buffer;
+}
+
+/**
+ * Longest tag accepted when parsing incoming frames
+ */
+const MAX_TAG_LENGTH = 64;
+
+/**
+ * Prefix a payload with a message tag
+ * @param {String} tag Message tag
+ * @param {Buffer} payload Frame payload
+ * @returns {Buffer} Tagged frame
+ */
+export function encodeTaggedFrame(tag: string, payload: Buffer): Buffer {
+  return Buffer.concat([Buffer.from(`${tag},`, 'ascii'), payload]);
+}
+
+/**
+ * Split a frame into its message tag and payload
+ * @param {Buffer} data Raw frame
+ * @returns {TaggedFrame} Tag (null when untagged) and payload
+ */
+export function decodeTaggedFrame(data: Buffer): TaggedFrame {
+  const limit = Math.min(data.length, MAX_TAG_LENGTH + 1);
+
+  for (let i = 0; i < limit; i++) {
+    const byte = data[i];
+
+    if (byte === 0x2C) {
+      return i === 0
+        ? { tag: null, payload: data }
+        : { tag: data.subarray(0, i).toString('ascii'), payload: data.subarray(i + 1) };
+    }
+
+    // Tags are printable ASCII, anything else means the frame is untagged
+    if (byte < 0x20 || byte > 0x7E) {
+      break;
+    }
+  }
+
+  return { tag: null, payload: data };
+}
+
+/**
+ * Generates unique message tags for a connection. The random prefix keeps
+ * tags from colliding with the ones the other side generates.
+ */
+export class MessageTagGenerator {
+  private prefix: string;
+  private counter = 0;
+
+  /**
+   * Create a new generator
+   * @param {String} prefix Tag prefix (random when omitted)
+   */
+  constructor(prefix: string = `${randomBytes(4).toString('hex')}.--`) {
+    this.prefix = prefix;
+  }
+
+  /**
+   * Get the next message tag
+   * @returns {String} Message tag
+   */
+  next(): string {
+    return `${this.prefix}${this.counter++}`;
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Binary Protocol Module
+ *
+ * Standalone codec for WhatsApp Web binary nodes. It can be used to build and
+ * inspect raw frames without instantiating a client.
+ */
+
+export * from './types';
+export { WA_TOKENS, WA_DOUBLE_BYTE_TOKENS, WA_TAGS } from './constants';
+export { BinaryEncoder, encodeBinaryNode } from './encoder';
+export { BinaryDecoder, decodeBinaryNode } from './decoder';
+export { TaggedFrame, encodeTaggedFrame, decodeTaggedFrame, MessageTagGenerator } from './frame';
@@ -0,0 +1,24 @@
+/**
+ * Binary Node Types
+ *
+ * Typed node model shared by the binary encoder and decoder.
+ */
+
+/**
+ * Node attributes (key/value strings)
+ */
+export type BinaryNodeAttributes = Record<string, string>;
+
+/**
+ * Node content: child nodes, raw bytes, a string or nothing
+ */
+export type BinaryNodeContent = BinaryNode[] | Buffer | string | null;
+
+/**
+ * A single node of the WhatsApp Web binary protocol
+ */
+export interface BinaryNode {
+  tag: string;
+  attrs: BinaryNodeAttributes;
+  content: BinaryNodeContent;
+}
@@ -6,10 +6,15 @@
  */
 
 import { EventEmitter } from 'events';
+import * as path from 'path';
 import { QRAuthenticator } from '../auth/qr';
 import { PairingCodeAuthenticator } from '../auth/pairing-code';
+import { BinaryNode } from '../binary';
 import { CryptoManager } from '../crypto';
 import { isTermux } from '../utils/helpers';
+import { AuthenticationError } from '../utils/errors';
+import { LoggedOutEvent } from '../whatsapp-core';
+import { AuthStateStore, FileAuthStateStore, SESSION_SCHEMA_VERSION, loadSessionState } from '../auth-state';
 
 // Define client states
 export enum ClientState {
@@ -33,10 +38,14 @@ export interface ClientOptions {
   // Connection options
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
+  // Sends a node to the server and resolves with its response (needed for pairing codes)
+  query?: (node: BinaryNode) => Promise<BinaryNode>;
   
   // Session options
   sessionDir?: string;
   sessionId?: string;
+  sessionPassphrase?: string;
+  authStore?: AuthStateStore;
   
   // Debug options
   debug?: boolean;
@@ -60,6 +69,7 @@ export class WhatsAppClient extends EventEmitter {
   private qrAuth: QRAuthenticator;
   private pairingAuth: PairingCodeAuthenticator;
   private credentials: any = {};
+  private authStore: AuthStateStore;
   private reconnectAttempts: number = 0;
   private reconnectTimer: NodeJS.Timeout | null = null;
   
@@ -78,6 +88,7 @@ export class WhatsAppClient extends EventEmitter {
       pairingTimeout: options.pairingTimeout || 60000,
       reconnectInterval: options.reconnectInterval || 5000,
       maxReconnectAttempts: options.maxReconnectAttempts || 10,
+      query: options.query,
       sessionDir: options.sessionDir || './sessions',
       sessionId: options.sessionId || 'default-session',
       debug: options.debug || false,
@@ -111,6 +122,12 @@ export class WhatsAppClient extends EventEmitter {
       }
     }
     
+    // Sessions default to files under sessionDir/sessionId
+    this.authStore = options.authStore
+      || new FileAuthStateStore(path.join(this.options.sessionDir!, this.options.sessionId!), {
+        passphrase: options.sessionPassphrase
+      });
+    
     // Initialize authenticators
     this.qrAuth = new QRAuthenticator({
       clientId: this.options.clientId,
@@ -161,15 +178,20 @@ export class WhatsAppClient extends EventEmitter {
   /**
    * Request a pairing code for authentication
    * @param {String} phoneNumber Phone number in international format
-   * @returns {Promise<void>}
+   * @returns {Promise<String>} Code to type on the phone
    */
-  async requestPairingCode(phoneNumber: string): Promise<void> {
+  async requestPairingCode(phoneNumber: string): Promise<string> {
     if (this.state !== ClientState.AUTHENTICATING) {
       throw new Error('Client must be in AUTHENTICATING state to request a pairing code');
     }
     
+    if (!this.options.query) {
+      throw new AuthenticationError('A query option is needed to send the pairing request', 'NOT_CONNECTED');
+    }
+    
     try {
-      await this.pairingAuth.requestPairingCode(phoneNumber);
+      const hello = await this.pairingAuth.requestPairingCode(phoneNumber);
+      return this.pairingAuth.handleHelloResponse(await this.options.query(hello));
     } catch (error) {
       this.emit('error', error);
       throw error;
@@ -183,6 +205,8 @@ export class WhatsAppClient extends EventEmitter {
   async logout(): Promise<void> {
     this._setState(ClientState.LOGGING_OUT);
     
+    const wid: string | null = this.credentials.wid || null;
+    
     // Clear session
     await this._clearSession();
     
@@ -192,6 +216,9 @@ export class WhatsAppClient extends EventEmitter {
     
     this._setState(ClientState.DISCONNECTED);
     this.emit('logout');
+    
+    const event: LoggedOutEvent = { reason: 'user_initiated', wid };
+    this.emit('logged_out', event);
   }
   
   /**
@@ -219,9 +246,13 @@ export class WhatsAppClient extends EventEmitter {
    * @private
    */
   private async _loadSession(): Promise<boolean> {
-    // This would typically load the session from a file
-    // For now, we just return false to simulate no session
-    return false;
+    const loaded = await loadSessionState(this.authStore);
+    if (!loaded) {
+      return false;
+    }
+    
+    this.credentials = loaded.session;
+    return true;
   }
   
   /**
@@ -230,7 +261,7 @@ export class WhatsAppClient extends EventEmitter {
    * @private
    */
   private async _saveSession(): Promise<void> {
-    // This would typically save the session to a file
+    await this.authStore.setCredentials({ ...this.credentials, version: SESSION_SCHEMA_VERSION, timestamp: Date.now() });
   }
   
   /**
@@ -239,7 +270,7 @@ export class WhatsAppClient extends EventEmitter {
    * @private
    */
   private async _clearSession(): Promise<void> {
-    // This would typically delete the session file
+    await this.authStore.clear();
     this.credentials = {};
   }
   
@@ -9,12 +9,14 @@ import { EventEmitter } from 'events';
 import * as WebSocket from 'ws';
 import { randomBytes } from 'crypto';
 import { CryptoManager } from '../crypto';
+import { ReconnectPolicy } from '../connection';
+import { createProxyAgent } from '../proxy';
 
 export class WebSocketClient extends EventEmitter {
   private ws: WebSocket | null = null;
   private url: string;
   private options: any;
-  private reconnectAttempts: number = 0;
+  private reconnectPolicy: ReconnectPolicy;
   private reconnectTimer: NodeJS.Timeout | null = null;
   private keepAliveTimer: NodeJS.Timeout | null = null;
   
@@ -28,6 +30,16 @@ export class WebSocketClient extends EventEmitter {
       },
       ...options
     };
+    
+    if (this.options.proxy && !this.options.agent) {
+      this.options.agent = createProxyAgent(this.options.proxy, url);
+    }
+    
+    this.reconnectPolicy = new ReconnectPolicy({
+      baseDelay: this.options.reconnectInterval || 5000,
+      maxAttempts: this.options.maxReconnectAttempts || 10,
+      ...this.options.reconnectPolicy
+    });
   }
   
   /**
@@ -42,6 +54,7 @@ export class WebSocketClient extends EventEmitter {
       this.ws = new WebSocket(this.url, this.options);
       
       this.ws.on('open', () => {
+        this.reconnectPolicy.recordSuccess();
         this.startKeepAlive();
         this.emit('open');
         resolve();
@@ -108,24 +121,20 @@ export class WebSocketClient extends EventEmitter {
       clearTimeout(this.reconnectTimer);
     }
     
-    const maxAttempts = this.options.maxReconnectAttempts || 10;
-    
-    if (this.reconnectAttempts >= maxAttempts) {
+    const decision = this.reconnectPolicy.next();
+    if (!decision) {
       this.emit('reconnect_failed');
       return;
     }
     
-    this.reconnectAttempts++;
-    
-    const delay = this.options.reconnectInterval || 5000;
-    
-    this.emit('reconnecting', this.reconnectAttempts);
+    this.emit('reconnect_scheduled', decision);
+    this.emit('reconnecting', decision.attempt, decision.delay);
     
     this.reconnectTimer = setTimeout(() => {
       this.connect().catch(() => {
         // Error will be emitted through the 'error' event
       });
-    }, delay);
+    }, decision.delay);
   }
   
   /**
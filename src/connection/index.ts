@@ -0,0 +1,14 @@
+/**
+ * Connection Module
+ *
+ * Connection lifecycle state machine and reconnect policy.
+ */
+
+export {
+  ConnectionStateMachine,
+  ConnectionState,
+  ConnectionStateChange,
+  ConnectionStateDetails,
+  CONNECTION_TRANSITIONS
+} from './state-machine';
+export { ReconnectPolicy, ReconnectPolicyOptions, ReconnectDecision } from './reconnect-policy';
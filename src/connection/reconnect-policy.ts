@@ -0,0 +1,134 @@
+/**
+ * Reconnect Policy
+ *
+ * Decides when (and whether) to retry a lost connection: exponential backoff
+ * with full jitter up to a maximum delay, an optional unlimited mode for
+ * long-running bots, and a circuit breaker that pauses retries after
+ * repeated authentication failures instead of hammering the server.
+ */
+
+export interface ReconnectPolicyOptions {
+  // Delay (ms) before the first retry, doubled (see factor) for every further one
+  baseDelay?: number;
+  // Upper bound (ms) of a single delay
+  maxDelay?: number;
+  // Growth of the delay per attempt
+  factor?: number;
+  // Full jitter: pick the delay uniformly between 0 and the backoff value
+  jitter?: boolean;
+  // Attempts before giving up (ignored when unlimited)
+  maxAttempts?: number;
+  // Never give up (delays stay capped at maxDelay)
+  unlimited?: boolean;
+  // Consecutive authentication failures that open the circuit breaker (0 disables it)
+  authFailureThreshold?: number;
+  // How long (ms) retries pause while the circuit breaker is open
+  circuitBreakerPause?: number;
+}
+
+/**
+ * When to make the next attempt
+ */
+export interface ReconnectDecision {
+  attempt: number;
+  delay: number;
+  circuitOpen: boolean;
+}
+
+// Exponents beyond this would only ever hit maxDelay
+const MAX_EXPONENT = 32;
+
+/**
+ * Backoff, retry limit and circuit breaker for reconnecting clients
+ */
+export class ReconnectPolicy {
+  private options: Required<ReconnectPolicyOptions>;
+  private attempts = 0;
+  private authFailures = 0;
+
+  /**
+   * Create a new reconnect policy
+   * @param {ReconnectPolicyOptions} options Backoff, limit and circuit breaker settings
+   */
+  constructor(options: ReconnectPolicyOptions = {}) {
+    this.options = {
+      baseDelay: 1000,
+      maxDelay: 60000,
+      factor: 2,
+      jitter: true,
+      maxAttempts: 10,
+      unlimited: false,
+      authFailureThreshold: 3,
+      circuitBreakerPause: 5 * 60 * 1000,
+      ...options
+    };
+  }
+
+  /**
+   * Number of attempts made since the last success
+   * @returns {Number}
+   */
+  getAttempts(): number {
+    return this.attempts;
+  }
+
+  /**
+   * Whether retries are paused because authentication keeps failing
+   * @returns {Boolean}
+   */
+  isCircuitOpen(): boolean {
+    return this.options.authFailureThreshold > 0 && this.authFailures >= this.options.authFailureThreshold;
+  }
+
+  /**
+   * Plan the next attempt
+   * @returns {ReconnectDecision|null} Attempt number and delay, or null to give up
+   */
+  next(): ReconnectDecision | null {
+    if (!this.options.unlimited && this.attempts >= this.options.maxAttempts) {
+      return null;
+    }
+
+    this.attempts++;
+
+    if (this.isCircuitOpen()) {
+      return { attempt: this.attempts, delay: this.options.circuitBreakerPause, circuitOpen: true };
+    }
+
+    return { attempt: this.attempts, delay: this.backoff(this.attempts), circuitOpen: false };
+  }
+
+  /**
+   * Compute the delay of an attempt
+   * @param {Number} attempt Attempt number (1 for the first retry)
+   * @returns {Number} Delay in ms
+   */
+  backoff(attempt: number): number {
+    const exponent = Math.min(Math.max(attempt - 1, 0), MAX_EXPONENT);
+    const ceiling = Math.min(this.options.maxDelay, this.options.baseDelay * Math.pow(this.options.factor, exponent));
+
+    return this.options.jitter ? Math.floor(Math.random() * ceiling) : ceiling;
+  }
+
+  /**
+   * Record a login the server refused; enough of them in a row open the circuit breaker
+   */
+  recordAuthFailure(): void {
+    this.authFailures++;
+  }
+
+  /**
+   * Record a fully established connection: attempts and the circuit breaker start over
+   */
+  recordSuccess(): void {
+    this.reset();
+  }
+
+  /**
+   * Forget all attempts and failures
+   */
+  reset(): void {
+    this.attempts = 0;
+    this.authFailures = 0;
+  }
+}
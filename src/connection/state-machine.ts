@@ -0,0 +1,131 @@
+/**
+ * Connection State Machine
+ *
+ * Single source of truth for where a client is in its connection lifecycle.
+ * Transitions are validated against an explicit table, so a stray event
+ * (e.g. a socket closing twice) cannot start a second reconnect loop.
+ */
+
+import { EventEmitter } from 'events';
+import { StateTransitionError } from '../utils/errors';
+
+/**
+ * Connection lifecycle states:
+ * - 'idle': created, never connected
+ * - 'connecting': opening the WebSocket
+ * - 'handshaking': socket open, Noise handshake in progress
+ * - 'authenticating': waiting for login (QR, pairing code or saved session)
+ * - 'syncing': logged in, fetching initial chats and contacts
+ * - 'ready': fully usable
+ * - 'reconnecting': connection lost, next attempt scheduled
+ * - 'closed': stopped (disconnect, logout, fatal error or retries exhausted)
+ */
+export type ConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'handshaking'
+  | 'authenticating'
+  | 'syncing'
+  | 'ready'
+  | 'reconnecting'
+  | 'closed';
+
+/**
+ * States reachable from each state
+ */
+export const CONNECTION_TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
+  // 'idle' -> 'authenticating' lets recorded frames be replayed without a connection
+  idle: ['connecting', 'authenticating', 'closed'],
+  connecting: ['handshaking', 'authenticating', 'reconnecting', 'closed'],
+  handshaking: ['authenticating', 'reconnecting', 'closed'],
+  authenticating: ['syncing', 'reconnecting', 'closed'],
+  syncing: ['ready', 'reconnecting', 'closed'],
+  ready: ['reconnecting', 'closed'],
+  reconnecting: ['connecting', 'closed'],
+  closed: ['connecting']
+};
+
+/**
+ * Why a transition happened (socket close code, error, ...)
+ */
+export interface ConnectionStateDetails {
+  reason?: string;
+  code?: number;
+  error?: Error;
+}
+
+/**
+ * Payload of 'change' (and of WhatsAppCore's 'connection.update')
+ */
+export interface ConnectionStateChange extends ConnectionStateDetails {
+  previous: ConnectionState;
+  state: ConnectionState;
+}
+
+/**
+ * Tracks the connection state and validates transitions.
+ *
+ * Events:
+ * - 'change' (ConnectionStateChange) after every transition
+ */
+export class ConnectionStateMachine extends EventEmitter {
+  private current: ConnectionState;
+
+  /**
+   * Create a new state machine
+   * @param {ConnectionState} initial Initial state
+   */
+  constructor(initial: ConnectionState = 'idle') {
+    super();
+    this.current = initial;
+  }
+
+  /**
+   * Current state
+   * @returns {ConnectionState}
+   */
+  get state(): ConnectionState {
+    return this.current;
+  }
+
+  /**
+   * Whether the current state is one of the given states
+   * @param {...ConnectionState} states States to check
+   * @returns {Boolean}
+   */
+  is(...states: ConnectionState[]): boolean {
+    return states.includes(this.current);
+  }
+
+  /**
+   * Whether a transition to a state is allowed from the current one
+   * @param {ConnectionState} next Requested state
+   * @returns {Boolean}
+   */
+  canTransition(next: ConnectionState): boolean {
+    return CONNECTION_TRANSITIONS[this.current].includes(next);
+  }
+
+  /**
+   * Move to a new state. Moving to the current state does nothing.
+   * @param {ConnectionState} next Requested state
+   * @param {ConnectionStateDetails} details Why the transition happened
+   * @returns {Boolean} Whether the state changed
+   * @throws {StateTransitionError} When the transition is not allowed
+   */
+  transition(next: ConnectionState, details: ConnectionStateDetails = {}): boolean {
+    if (next === this.current) {
+      return false;
+    }
+
+    if (!this.canTransition(next)) {
+      throw new StateTransitionError(this.current, next);
+    }
+
+    const change: ConnectionStateChange = { previous: this.current, state: next, ...details };
+    this.current = next;
+    this.emit('change', change);
+
+    return true;
+  }
+}
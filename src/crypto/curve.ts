@@ -0,0 +1,49 @@
+/**
+ * Curve25519 Helpers
+ *
+ * Raw x25519 key pairs and Diffie-Hellman, backed by @noble/curves (pure JS).
+ */
+
+import { x25519 } from '@noble/curves/ed25519';
+
+/**
+ * Raw Curve25519 key pair
+ */
+export interface KeyPair {
+  privateKey: Buffer;
+  publicKey: Buffer;
+}
+
+/**
+ * Generate a new Curve25519 key pair
+ * @returns {KeyPair} Key pair
+ */
+export function generateCurveKeyPair(): KeyPair {
+  const privateKey = Buffer.from(x25519.utils.randomPrivateKey());
+  return {
+    privateKey,
+    publicKey: Buffer.from(x25519.getPublicKey(privateKey))
+  };
+}
+
+/**
+ * Derive the public key for a Curve25519 private key
+ * @param {Buffer} privateKey Private key
+ * @returns {KeyPair} Key pair
+ */
+export function curveKeyPairFromPrivate(privateKey: Buffer): KeyPair {
+  return {
+    privateKey,
+    publicKey: Buffer.from(x25519.getPublicKey(privateKey))
+  };
+}
+
+/**
+ * Compute a Curve25519 shared secret
+ * @param {Buffer} privateKey Our private key
+ * @param {Buffer} publicKey Their public key
+ * @returns {Buffer} 32 byte shared secret
+ */
+export function curveSharedSecret(privateKey: Buffer, publicKey: Buffer): Buffer {
+  return Buffer.from(x25519.getSharedSecret(privateKey, publicKey));
+}
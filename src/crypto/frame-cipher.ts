@@ -0,0 +1,139 @@
+/**
+ * Frame Cipher
+ *
+ * Authenticated encryption of binary frames with the session encKey/macKey.
+ * Outbound frames are AES-256-CBC encrypted and prefixed with an HMAC-SHA256
+ * of the ciphertext; inbound frames are verified before being decrypted.
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes, timingSafeEqual } from 'crypto';
+import { x25519 } from '@noble/curves/ed25519';
+import { ProtocolError } from '../utils/errors';
+
+const MAC_LENGTH = 32;
+const IV_LENGTH = 16;
+
+/**
+ * Session keys negotiated at login
+ */
+export interface SessionKeys {
+  encKey: Buffer;
+  macKey: Buffer;
+}
+
+/**
+ * Encrypts and verifies frames for an authenticated session
+ */
+export class FrameCipher {
+  private encKey: Buffer;
+  private macKey: Buffer;
+
+  /**
+   * Create a new frame cipher
+   * @param {SessionKeys} keys 32 byte encryption and MAC keys
+   */
+  constructor(keys: SessionKeys) {
+    if (keys.encKey.length !== 32 || keys.macKey.length !== 32) {
+      throw new ProtocolError('Session keys must be 32 bytes long', 'INVALID_KEYS');
+    }
+
+    this.encKey = keys.encKey;
+    this.macKey = keys.macKey;
+  }
+
+  /**
+   * Encrypt and sign an outbound frame
+   * @param {Buffer} payload Encoded binary node
+   * @returns {Buffer} MAC + IV + ciphertext
+   */
+  encrypt(payload: Buffer): Buffer {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-cbc', this.encKey, iv);
+    const encrypted = Buffer.concat([iv, cipher.update(payload), cipher.final()]);
+    const mac = createHmac('sha256', this.macKey).update(encrypted).digest();
+
+    return Buffer.concat([mac, encrypted]);
+  }
+
+  /**
+   * Verify and decrypt an inbound frame
+   * @param {Buffer} frame MAC + IV + ciphertext
+   * @returns {Buffer} Encoded binary node
+   */
+  decrypt(frame: Buffer): Buffer {
+    if (frame.length < MAC_LENGTH + IV_LENGTH * 2) {
+      throw new ProtocolError(`Encrypted frame too short (${frame.length} bytes)`, 'FRAME_TOO_SHORT');
+    }
+
+    const mac = frame.subarray(0, MAC_LENGTH);
+    const encrypted = frame.subarray(MAC_LENGTH);
+    const expected = createHmac('sha256', this.macKey).update(encrypted).digest();
+
+    if (!timingSafeEqual(mac, expected)) {
+      throw new ProtocolError('Frame MAC mismatch', 'MAC_MISMATCH');
+    }
+
+    try {
+      const decipher = createDecipheriv('aes-256-cbc', this.encKey, encrypted.subarray(0, IV_LENGTH));
+      return Buffer.concat([decipher.update(encrypted.subarray(IV_LENGTH)), decipher.final()]);
+    } catch (error) {
+      throw new ProtocolError(`Frame decryption failed: ${error.message}`, 'DECRYPT_FAILED');
+    }
+  }
+}
+
+/**
+ * Derive the session keys from the secret sent by the server at login.
+ *
+ * The secret is laid out as: server public key (32) + HMAC (32) + encrypted keys (80).
+ * @param {Buffer} privateKey Our Curve25519 private key
+ * @param {Buffer} secret Secret from the login response
+ * @returns {SessionKeys} Decrypted encKey and macKey
+ */
+export function deriveSessionKeys(privateKey: Buffer, secret: Buffer): SessionKeys {
+  if (secret.length !== 144) {
+    throw new ProtocolError(`Invalid login secret length: ${secret.length}`, 'INVALID_SECRET');
+  }
+
+  const sharedSecret = Buffer.from(x25519.getSharedSecret(privateKey, secret.subarray(0, 32)));
+  const expanded = Buffer.from(hkdfSync('sha256', sharedSecret, Buffer.alloc(32), Buffer.alloc(0), 80));
+
+  const mac = createHmac('sha256', expanded.subarray(32, 64))
+    .update(Buffer.concat([secret.subarray(0, 32), secret.subarray(64)]))
+    .digest();
+
+  if (!timingSafeEqual(mac, secret.subarray(32, 64))) {
+    throw new ProtocolError('Login secret MAC mismatch', 'MAC_MISMATCH');
+  }
+
+  const decipher = createDecipheriv('aes-256-cbc', expanded.subarray(0, 32), expanded.subarray(64, 80));
+  const keys = Buffer.concat([decipher.update(secret.subarray(64)), decipher.final()]);
+
+  return {
+    encKey: keys.subarray(0, 32),
+    macKey: keys.subarray(32, 64)
+  };
+}
+
+/**
+ * Wrap session keys in a login secret for a client (the server side of deriveSessionKeys).
+ * @param {Buffer} publicKey Client Curve25519 public key
+ * @param {SessionKeys} keys Session keys to hand out
+ * @returns {Buffer} 144 byte login secret
+ */
+export function createLoginSecret(publicKey: Buffer, keys: SessionKeys): Buffer {
+  const serverPrivateKey = randomBytes(32);
+  const serverPublicKey = Buffer.from(x25519.getPublicKey(serverPrivateKey));
+
+  const sharedSecret = Buffer.from(x25519.getSharedSecret(serverPrivateKey, publicKey));
+  const expanded = Buffer.from(hkdfSync('sha256', sharedSecret, Buffer.alloc(32), Buffer.alloc(0), 80));
+
+  const cipher = createCipheriv('aes-256-cbc', expanded.subarray(0, 32), expanded.subarray(64, 80));
+  const encrypted = Buffer.concat([cipher.update(Buffer.concat([keys.encKey, keys.macKey])), cipher.final()]);
+
+  const mac = createHmac('sha256', expanded.subarray(32, 64))
+    .update(Buffer.concat([serverPublicKey, encrypted]))
+    .digest();
+
+  return Buffer.concat([serverPublicKey, mac, encrypted]);
+}
@@ -9,6 +9,12 @@
 // Export all functions from the TweetNaCl implementation
 export * from './tweetnacl-impl';
 
+// Export Curve25519 helpers
+export { KeyPair, generateCurveKeyPair, curveKeyPairFromPrivate, curveSharedSecret } from './curve';
+
+// Export the session frame cipher
+export { FrameCipher, SessionKeys, deriveSessionKeys, createLoginSecret } from './frame-cipher';
+
 // Re-export in a named class for compatibility with existing code
 import * as cryptoFuncs from './tweetnacl-impl';
 
@@ -11,15 +11,131 @@
 // Export client
 export { WhatsAppClient, ClientState, ClientOptions } from './client';
 
+// Export core client types
+export { LogoutReason, LoggedOutEvent, MessageFailedEvent } from './whatsapp-core';
+
+// Export multi-account manager
+export { AccountManager, AccountManagerOptions, AccountConfig, AccountInfo, ACCOUNT_EVENTS } from './accounts';
+
+// Export connection state machine and reconnect policy
+export {
+  ConnectionStateMachine,
+  ConnectionState,
+  ConnectionStateChange,
+  CONNECTION_TRANSITIONS,
+  ReconnectPolicy,
+  ReconnectPolicyOptions
+} from './connection';
+
 // Export WebSocket client
 export { WebSocketClient } from './client/websocket-simplified';
 
 // Export authenticators
 export { QRAuthenticator } from './auth/qr';
-export { PairingCodeAuthenticator } from './auth/pairing-code';
+export { PairingCodeAuthenticator, PairingCodeOptions, generatePairingCode, PAIRING_CODE_ALPHABET } from './auth/pairing-code';
 
 // Export cryptography
-export { CryptoManager } from './crypto';
+export { CryptoManager, FrameCipher, deriveSessionKeys } from './crypto';
+
+// Export binary protocol codec
+export {
+  BinaryNode,
+  BinaryNodeAttributes,
+  BinaryNodeContent,
+  BinaryEncoder,
+  BinaryDecoder,
+  encodeBinaryNode,
+  decodeBinaryNode,
+  WA_TAGS,
+  WA_TOKENS,
+  encodeTaggedFrame,
+  decodeTaggedFrame
+} from './binary';
+
+// Export message payload schemas
+export {
+  WAMessageType,
+  WAMessagePayload,
+  WAMessageContentMap,
+  WAContextInfo,
+  encodeMessagePayload,
+  decodeMessagePayload
+} from './proto';
+
+// Export Noise handshake
+export {
+  NoiseHandshake,
+  NoiseSession,
+  NoiseTransport,
+  NOISE_INTRO_HEADER,
+  NoiseServerTrust,
+  WA_ROOT_PUBLIC_KEY,
+  generateCertificateKeyPair,
+  createCertificateChain,
+  verifyServerIdentity
+} from './noise';
+
+// Export Signal sessions
+export {
+  SignalRepository,
+  SignalKeyStore,
+  InMemorySignalKeyStore,
+  SenderKeyStore,
+  InMemorySenderKeyStore,
+  SessionBuilder,
+  SessionCipher,
+  PreKeyBundle,
+  PreKeyRange
+} from './signal';
+
+// Export mock server for integration testing
+export { MockWhatsAppServer, MockConnection, MockServerOptions } from './mock';
+
+// Export auth state stores
+export {
+  AuthStateStore,
+  SessionState,
+  MemoryAuthStateStore,
+  FileAuthStateStore,
+  SingleFileAuthStateStore,
+  AuthStateSignalKeyStore,
+  FileAuthStateOptions,
+  PassphraseCipher,
+  rekeySession,
+  RekeyOptions,
+  SESSION_SCHEMA_VERSION,
+  migrateSession
+} from './auth-state';
+
+// Export QR rendering
+export { QRRenderer, QRRenderOptions, RenderedQR, LoginPageServer, LoginPageOptions } from './qr';
+
+// Export proxy tunnels
+export { ProxyAgent, ProxyOptions, createProxyAgent, parseProxyUrl } from './proxy';
+
+// Export durable outbox
+export { Outbox, OutboxOptions, OutboxEntry } from './outbox';
+
+// Export rate limiting
+export { RateLimiter, RateLimitOptions, ThrottleEvent, TokenBucket } from './rate-limit';
+
+// Export frame recorder and replayer
+export { FrameRecorder, FrameReplayer, RecordedFrame, ReplayResult, readRecording } from './recorder';
+
+// Export errors
+export {
+  WhatsAppError,
+  TimeoutError,
+  QueryError,
+  ConnectionClosedError,
+  ProtocolError,
+  SignalError,
+  AuthenticationError,
+  SessionError,
+  SessionLockedError,
+  StateTransitionError,
+  ProxyError
+} from './utils/errors';
 
 // Export events
 export { WhatsAppEvents } from './websocket/events';
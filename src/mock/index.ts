@@ -0,0 +1,7 @@
+/**
+ * Mock Module
+ *
+ * Local WhatsApp server for integration testing without network access.
+ */
+
+export { MockWhatsAppServer, MockConnection, MockServerOptions } from './server';
@@ -0,0 +1,812 @@
+/**
+ * Mock WhatsApp Server
+ *
+ * Local `ws` server speaking the same protocol as WhatsAppCore (Noise
+ * handshake, tagged frames, binary nodes, frame encryption after login) so
+ * connection, authentication, messaging and reconnection can be exercised
+ * without network access.
+ */
+
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import WebSocket, { WebSocketServer } from 'ws';
+import {
+  BinaryNode,
+  encodeBinaryNode,
+  decodeBinaryNode,
+  encodeTaggedFrame,
+  decodeTaggedFrame,
+  MessageTagGenerator
+} from '../binary';
+import { FrameCipher, SessionKeys, createLoginSecret } from '../crypto/frame-cipher';
+import { KeyPair, generateCurveKeyPair, curveSharedSecret } from '../crypto/curve';
+import { NoiseSession, NoiseServerTrust, generateCertificateKeyPair, createCertificateChain } from '../noise';
+import { WAMessagePayload, encodeMessagePayload } from '../proto';
+import { wrapEphemeralKey, unwrapEphemeralKey, decryptKeyBundle } from '../auth/pairing-code';
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  noise?: boolean;
+  wid?: string;
+  pushname?: string;
+  queryHandler?: (node: BinaryNode, connection: MockConnection) => BinaryNode | null | undefined;
+}
+
+/**
+ * Login issued by the mock server, reused when a client restores its session
+ */
+interface MockLogin {
+  wid: string;
+  pushname: string;
+  clientId: string;
+  serverToken: string;
+  clientToken: string;
+  keys: SessionKeys;
+}
+
+/**
+ * Phone number link requested by a client, waiting for the code to be entered
+ */
+interface MockPairing {
+  connection: MockConnection;
+  ref: string;
+  wrappedCompanionKey: Buffer;
+  primaryEphemeral: KeyPair;
+  primaryIdentity: KeyPair;
+  companionEphemeralKey: Buffer | null;
+  pushname?: string;
+}
+
+/**
+ * One client socket connected to the mock server
+ */
+export class MockConnection extends EventEmitter {
+  readonly socket: WebSocket;
+  clientId: string | null = null;
+  qrRef: string | null = null;
+  wid: string | null = null;
+
+  private noise: NoiseSession | null = null;
+  private cipher: FrameCipher | null = null;
+  // Server pushes get their own tag namespace, apart from client request tags
+  private tagGenerator = new MessageTagGenerator('srv.--');
+
+  /**
+   * Wrap an accepted socket
+   * @param {WebSocket} socket Client socket
+   * @param {KeyPair} staticKeyPair Server Noise static key pair, or null without Noise
+   * @param {Buffer} certificate Certificate chain for the static key
+   */
+  constructor(socket: WebSocket, staticKeyPair: KeyPair | null, certificate?: Buffer) {
+    super();
+    this.socket = socket;
+
+    if (staticKeyPair) {
+      this.noise = new NoiseSession({
+        role: 'responder',
+        send: (data) => this.socket.send(data),
+        staticKeyPair,
+        payload: certificate
+      });
+      this.noise.on('frame', (frame: Buffer) => this.handleFrame(frame));
+      this.noise.on('error', (error) => this.emit('error', error));
+    }
+
+    socket.on('message', (data: Buffer) => {
+      if (this.noise) {
+        this.noise.receive(data);
+      } else {
+        this.handleFrame(data);
+      }
+    });
+  }
+
+  /**
+   * Whether the client has logged in on this connection
+   * @returns {Boolean}
+   */
+  isLoggedIn(): boolean {
+    return this.wid !== null;
+  }
+
+  /**
+   * Send a node to the client
+   * @param {BinaryNode} node Node to send
+   * @param {String} tag Message tag (a server tag when omitted)
+   */
+  send(node: BinaryNode, tag: string = this.tagGenerator.next()): void {
+    this.sendPayload(encodeBinaryNode(node), tag);
+  }
+
+  /**
+   * Send an already encoded (or deliberately malformed) node payload to the client
+   * @param {Buffer} payload Node payload
+   * @param {String} tag Message tag (a server tag when omitted)
+   */
+  sendPayload(payload: Buffer, tag: string = this.tagGenerator.next()): void {
+    const frame = encodeTaggedFrame(tag, this.cipher ? this.cipher.encrypt(payload) : payload);
+
+    if (this.noise) {
+      this.noise.send(frame);
+    } else {
+      this.socket.send(frame);
+    }
+  }
+
+  /**
+   * Encrypt all following frames with the session keys
+   * @param {SessionKeys} keys Session keys
+   */
+  enableFrameCipher(keys: SessionKeys): void {
+    this.cipher = new FrameCipher(keys);
+  }
+
+  /**
+   * Close the socket
+   * @param {Number} code Close code
+   */
+  close(code: number = 1000): void {
+    this.socket.close(code);
+  }
+
+  /**
+   * Decode a frame from the client and emit it as a node
+   * @param {Buffer} data Tagged frame
+   * @private
+   */
+  private handleFrame(data: Buffer): void {
+    try {
+      const { tag, payload } = decodeTaggedFrame(data);
+      const node = decodeBinaryNode(this.cipher ? this.cipher.decrypt(payload) : payload);
+      this.emit('node', node, tag);
+    } catch (error) {
+      this.emit('error', error);
+    }
+  }
+}
+
+/**
+ * Mock WhatsApp Web server.
+ *
+ * Events:
+ * - 'connection' (MockConnection) for every client socket
+ * - 'node' (node, tag, connection) for every node a client sends
+ * - 'login' (connection) when a client logs in or restores its session
+ * - 'logout' (connection) when a client unlinks itself
+ * - 'disconnect' (connection) when a client socket closes
+ */
+export class MockWhatsAppServer extends EventEmitter {
+  private options: MockServerOptions;
+  private server: WebSocketServer | null = null;
+  private connections: Set<MockConnection> = new Set();
+  private logins: Map<string, MockLogin> = new Map();
+  private preKeyBundles: Map<string, BinaryNode[]> = new Map();
+  private chats: Map<string, BinaryNode> = new Map();
+  private pairings: Map<string, MockPairing> = new Map();
+  private staticKeyPair: KeyPair = generateCurveKeyPair();
+  private rootKeyPair: KeyPair = generateCertificateKeyPair();
+  private certificate: Buffer = createCertificateChain(this.rootKeyPair, this.staticKeyPair.publicKey);
+
+  /**
+   * Create a new mock server
+   * @param {MockServerOptions} options Server options
+   */
+  constructor(options: MockServerOptions = {}) {
+    super();
+    this.options = {
+      port: 0,
+      host: '127.0.0.1',
+      noise: true,
+      pushname: 'Mock User',
+      ...options
+    };
+  }
+
+  /**
+   * Start listening
+   * @returns {Promise<String>} WebSocket URL for the client's connection.url option
+   */
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.server = new WebSocketServer({ port: this.options.port, host: this.options.host });
+
+      this.server.once('listening', () => resolve(this.getUrl()));
+      this.server.once('error', reject);
+      this.server.on('connection', (socket: WebSocket) => this.handleConnection(socket));
+    });
+  }
+
+  /**
+   * Close all client sockets and stop listening
+   * @returns {Promise<void>}
+   */
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+
+      for (const connection of this.connections) {
+        connection.socket.terminate();
+      }
+      this.connections.clear();
+
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  /**
+   * Get the trust settings for the client's connection.serverTrust option.
+   * The server signs its Noise static key with its own root key, so clients
+   * must trust that root instead of WhatsApp's.
+   * @param {Boolean} pin Pin the server static key instead of checking its certificate
+   * @returns {NoiseServerTrust} Trust settings
+   */
+  getServerTrust(pin: boolean = false): NoiseServerTrust {
+    return pin ? { staticKey: this.staticKeyPair.publicKey } : { rootKey: this.rootKeyPair.publicKey };
+  }
+
+  /**
+   * Get the WebSocket URL of the running server
+   * @returns {String} URL
+   */
+  getUrl(): string {
+    if (!this.server) {
+      throw new Error('Mock server is not running');
+    }
+
+    const address = this.server.address() as AddressInfo;
+    return `ws://${this.options.host}:${address.port}/ws/chat`;
+  }
+
+  /**
+   * Get the connected clients
+   * @returns {MockConnection[]} Connections
+   */
+  getConnections(): MockConnection[] {
+    return Array.from(this.connections);
+  }
+
+  /**
+   * Simulate the phone scanning a QR code: logs the client in with fresh session keys
+   * @param {String} qr QR string emitted by the client ('ref,publicKey,clientId')
+   * @param {Object} options Account to log in as
+   */
+  scan(qr: string, options: { wid?: string; pushname?: string } = {}): void {
+    const [ref, publicKey] = qr.split(',');
+    const connection = this.getConnections().find(candidate => candidate.qrRef === ref);
+
+    if (!connection || !publicKey) {
+      throw new Error(`No client is waiting for QR ref ${ref}`);
+    }
+
+    const login = this.createLogin(connection, options);
+    this.completeLogin(connection, login, createLoginSecret(Buffer.from(publicKey, 'base64'), login.keys));
+  }
+
+  /**
+   * Simulate the user typing a pairing code on the phone of a number a client asked to link.
+   * The client finishes the key exchange and is logged in; a wrong code makes its login fail.
+   * @param {String} phoneNumber Phone number the client requested a code for
+   * @param {String} code Code as typed on the phone
+   * @param {Object} options Push name of the account
+   * @returns {Promise<void>}
+   */
+  async enterPairingCode(phoneNumber: string, code: string, options: { pushname?: string } = {}): Promise<void> {
+    const pairing = this.pairings.get(phoneNumber.replace(/[^0-9]/g, ''));
+    if (!pairing) {
+      throw new Error(`No client is waiting for a pairing code for ${phoneNumber}`);
+    }
+
+    pairing.pushname = options.pushname;
+    pairing.companionEphemeralKey = await unwrapEphemeralKey(code.toUpperCase(), pairing.wrappedCompanionKey);
+
+    pairing.connection.send({
+      tag: 'notification',
+      attrs: { type: 'link_code_companion_reg', from: 's.whatsapp.net' },
+      content: [{
+        tag: 'link_code_companion_reg',
+        attrs: {},
+        content: [
+          { tag: 'link_code_pairing_ref', attrs: {}, content: pairing.ref },
+          {
+            tag: 'link_code_pairing_wrapped_primary_ephemeral_pub',
+            attrs: {},
+            content: await wrapEphemeralKey(code.toUpperCase(), pairing.primaryEphemeral.publicKey)
+          },
+          { tag: 'primary_identity_pub', attrs: {}, content: pairing.primaryIdentity.publicKey }
+        ]
+      }]
+    });
+  }
+
+  /**
+   * Simulate the user removing linked devices from the phone: their logins are revoked and
+   * connected clients get a device_removed stream error before their socket is closed
+   * @param {String} wid Account whose devices are removed
+   * @param {String} clientId Only remove the device with this client id
+   */
+  unlinkDevice(wid: string, clientId?: string): void {
+    this.revokeLogins(wid, clientId);
+
+    for (const connection of this.connections) {
+      if (connection.wid === wid && (!clientId || connection.clientId === clientId)) {
+        connection.send({
+          tag: 'stream:error',
+          attrs: { code: '401' },
+          content: [{ tag: 'conflict', attrs: { type: 'device_removed' }, content: null }]
+        });
+        connection.close();
+      }
+    }
+  }
+
+  /**
+   * Abort every client socket, as if the network dropped (the clients will try to reconnect)
+   */
+  dropConnections(): void {
+    for (const connection of this.connections) {
+      connection.socket.terminate();
+    }
+  }
+
+  /**
+   * Send a raw node to logged in clients
+   * @param {BinaryNode} node Node to send
+   * @param {String} to Only send to the client logged in as this JID
+   */
+  inject(node: BinaryNode, to?: string): void {
+    for (const connection of this.connections) {
+      if (connection.isLoggedIn() && (!to || connection.wid === to)) {
+        connection.send(node);
+      }
+    }
+  }
+
+  /**
+   * Deliver an incoming message to logged in clients
+   * @param {Object} message Message to deliver
+   * @returns {String} Message id
+   */
+  injectMessage(message: {
+    from: string;
+    participant?: string;
+    id?: string;
+    timestamp?: number;
+    to?: string;
+  } & WAMessagePayload): string {
+    const id = message.id || randomBytes(8).toString('hex').toUpperCase();
+
+    this.inject(this.actionNode({
+      tag: 'message',
+      attrs: {
+        id,
+        from: message.from,
+        participant: message.participant,
+        type: message.type,
+        t: String(message.timestamp || Date.now())
+      },
+      content: encodeMessagePayload(message)
+    }), message.to);
+
+    return id;
+  }
+
+  /**
+   * Deliver a presence update to logged in clients
+   * @param {Object} presence Presence update
+   */
+  injectPresence(presence: { from: string; type: 'available' | 'unavailable' | 'composing' | 'paused'; lastSeen?: number }): void {
+    this.inject(this.actionNode({
+      tag: 'presence',
+      attrs: {
+        from: presence.from,
+        type: presence.type,
+        t: presence.lastSeen ? String(presence.lastSeen) : undefined
+      },
+      content: null
+    }));
+  }
+
+  /**
+   * Deliver a chat update to logged in clients (and answer later chat queries with it)
+   * @param {Object} chat Chat attributes
+   */
+  injectChat(chat: { id: string; name?: string; participants?: string[]; [attr: string]: any }): void {
+    const { participants, ...attrs } = chat;
+    const node: BinaryNode = {
+      tag: 'chat',
+      attrs: this.stringAttrs({ jid: chat.id, ...attrs }),
+      content: participants
+        ? participants.map(jid => ({ tag: 'participant', attrs: { jid }, content: null }))
+        : null
+    };
+
+    this.chats.set(chat.id, node);
+    this.inject(this.actionNode(node));
+  }
+
+  /**
+   * Track a new client socket
+   * @param {WebSocket} socket Client socket
+   * @private
+   */
+  private handleConnection(socket: WebSocket): void {
+    const connection = new MockConnection(socket, this.options.noise ? this.staticKeyPair : null, this.certificate);
+    this.connections.add(connection);
+
+    connection.on('node', (node: BinaryNode, tag: string) => {
+      this.emit('node', node, tag, connection);
+      this.handleNode(connection, node, tag);
+    });
+    connection.on('error', (error) => this.emit('error', error));
+
+    socket.on('close', () => {
+      this.connections.delete(connection);
+      this.emit('disconnect', connection);
+    });
+
+    this.emit('connection', connection);
+  }
+
+  /**
+   * Answer a node sent by a client
+   * @param {MockConnection} connection Client connection
+   * @param {BinaryNode} node Received node
+   * @param {String} tag Message tag of the node
+   * @private
+   */
+  private handleNode(connection: MockConnection, node: BinaryNode, tag: string): void {
+    const custom = this.options.queryHandler?.(node, connection);
+    if (custom) {
+      connection.send(custom, tag);
+      return;
+    }
+
+    switch (node.tag) {
+      case 'admin':
+        this.handleAdmin(connection, node, tag);
+        break;
+
+      case 'query':
+        connection.send(this.handleQuery(node), tag);
+        break;
+
+      case 'iq':
+        connection.send(this.handleIq(connection, node), tag);
+        break;
+
+      case 'action':
+        connection.send(this.handleAction(connection, node), tag);
+        break;
+    }
+  }
+
+  /**
+   * Handle admin init, login and test (keep-alive) nodes
+   * @private
+   */
+  private handleAdmin(connection: MockConnection, node: BinaryNode, tag: string): void {
+    switch (node.attrs.type) {
+      case 'init':
+        connection.clientId = node.attrs.clientId;
+
+        // Clients linking by phone number get no QR ref
+        if (node.attrs.qr === 'false') {
+          connection.send({ tag: 'response', attrs: { type: 'init', status: '200' }, content: null }, tag);
+          break;
+        }
+
+        connection.qrRef = randomBytes(16).toString('base64');
+        connection.send({ tag: 'response', attrs: { type: 'qr', ref: connection.qrRef }, content: null }, tag);
+        break;
+
+      case 'login': {
+        const login = this.logins.get(node.attrs.clientToken);
+        if (!login || login.serverToken !== node.attrs.serverToken) {
+          connection.send({ tag: 'failure', attrs: { reason: '401' }, content: null }, tag);
+          return;
+        }
+        this.completeLogin(connection, login);
+        break;
+      }
+
+      case 'test':
+        connection.send({ tag: 'response', attrs: { type: 'pong' }, content: null }, tag);
+        break;
+    }
+  }
+
+  /**
+   * Answer chat, contacts, messages and profile queries
+   * @private
+   */
+  private handleQuery(node: BinaryNode): BinaryNode {
+    switch (node.attrs.type) {
+      case 'chat':
+        return { tag: 'response', attrs: { type: 'chat' }, content: Array.from(this.chats.values()) };
+
+      case 'contacts':
+        return {
+          tag: 'response',
+          attrs: { type: 'contacts' },
+          content: Array.from(this.logins.values()).map(login => ({
+            tag: 'user',
+            attrs: { jid: login.wid, notify: login.pushname },
+            content: null
+          }))
+        };
+
+      case 'profile':
+        return { tag: 'error', attrs: { status: '404' }, content: null };
+
+      default:
+        return { tag: 'response', attrs: { type: node.attrs.type }, content: [] };
+    }
+  }
+
+  /**
+   * Store uploaded pre-keys, count them and hand out pre-key bundles
+   * @private
+   */
+  private handleIq(connection: MockConnection, node: BinaryNode): BinaryNode {
+    if (node.attrs.xmlns === 'md') {
+      return this.findChild(node, 'remove-companion-device')
+        ? this.handleRemoveDevice(connection)
+        : this.handleLinkCode(connection, node);
+    }
+
+    if (node.attrs.xmlns !== 'encrypt') {
+      return { tag: 'iq', attrs: { type: 'result' }, content: null };
+    }
+
+    if (node.attrs.type === 'set' && connection.wid && Array.isArray(node.content)) {
+      this.preKeyBundles.set(connection.wid, node.content);
+      return { tag: 'iq', attrs: { type: 'result' }, content: null };
+    }
+
+    if (this.findChild(node, 'count')) {
+      const list = (this.preKeyBundles.get(connection.wid!) || []).find(child => child.tag === 'list');
+      const count = list && Array.isArray(list.content) ? list.content.length : 0;
+      return { tag: 'iq', attrs: { type: 'result' }, content: [{ tag: 'count', attrs: { value: String(count) }, content: null }] };
+    }
+
+    const uploaded = this.preKeyBundles.get(node.attrs.jid);
+    if (!uploaded) {
+      return { tag: 'error', attrs: { status: '404' }, content: null };
+    }
+
+    // Hand out one one-time pre-key per bundle, like the real server
+    const list = uploaded.find(child => child.tag === 'list');
+    const preKeys = list && Array.isArray(list.content) ? list.content : [];
+    const preKey = preKeys.shift();
+
+    return {
+      tag: 'iq',
+      attrs: { type: 'result' },
+      content: uploaded.filter(child => child.tag !== 'list').concat(preKey ? [preKey] : [])
+    };
+  }
+
+  /**
+   * Register phone number links (companion hello) and log in clients whose
+   * key bundle decrypts with the code entered on the phone (companion finish)
+   * @private
+   */
+  private handleLinkCode(connection: MockConnection, node: BinaryNode): BinaryNode {
+    const reg = this.findChild(node, 'link_code_companion_reg');
+    const phoneNumber = reg?.attrs.jid?.split('@')[0];
+    if (!reg || !phoneNumber) {
+      return { tag: 'error', attrs: { status: '400' }, content: null };
+    }
+
+    if (reg.attrs.stage === 'companion_hello') {
+      const wrapped = this.findChild(reg, 'link_code_pairing_wrapped_companion_ephemeral_pub')?.content;
+      if (!Buffer.isBuffer(wrapped)) {
+        return { tag: 'error', attrs: { status: '400' }, content: null };
+      }
+
+      const ref = randomBytes(16).toString('base64');
+      this.pairings.set(phoneNumber, {
+        connection,
+        ref,
+        wrappedCompanionKey: wrapped,
+        primaryEphemeral: generateCurveKeyPair(),
+        primaryIdentity: generateCurveKeyPair(),
+        companionEphemeralKey: null
+      });
+
+      return {
+        tag: 'iq',
+        attrs: { type: 'result' },
+        content: [{
+          tag: 'link_code_companion_reg',
+          attrs: {},
+          content: [{ tag: 'link_code_pairing_ref', attrs: {}, content: ref }]
+        }]
+      };
+    }
+
+    const pairing = this.pairings.get(phoneNumber);
+    const bundle = this.findChild(reg, 'link_code_pairing_wrapped_key_bundle')?.content;
+    const identity = this.findChild(reg, 'companion_identity_public')?.content;
+    if (!pairing || pairing.connection !== connection || !pairing.companionEphemeralKey
+      || !Buffer.isBuffer(bundle) || !Buffer.isBuffer(identity)) {
+      return { tag: 'error', attrs: { status: '404' }, content: null };
+    }
+
+    this.pairings.delete(phoneNumber);
+
+    let keyBundle: Buffer;
+    try {
+      keyBundle = decryptKeyBundle(curveSharedSecret(pairing.primaryEphemeral.privateKey, pairing.companionEphemeralKey), bundle);
+    } catch (error) {
+      return { tag: 'error', attrs: { status: '401', text: 'Wrong pairing code' }, content: null };
+    }
+
+    if (!keyBundle.subarray(0, 32).equals(identity) || !keyBundle.subarray(32, 64).equals(pairing.primaryIdentity.publicKey)) {
+      return { tag: 'error', attrs: { status: '401', text: 'Key bundle identity mismatch' }, content: null };
+    }
+
+    const login = this.createLogin(connection, { wid: `${phoneNumber}@s.whatsapp.net`, pushname: pairing.pushname });
+    this.completeLogin(connection, login, createLoginSecret(identity, login.keys));
+
+    return { tag: 'iq', attrs: { type: 'result' }, content: null };
+  }
+
+  /**
+   * Revoke the login of a client that logs itself out
+   * @private
+   */
+  private handleRemoveDevice(connection: MockConnection): BinaryNode {
+    if (!connection.wid) {
+      return { tag: 'error', attrs: { status: '401' }, content: null };
+    }
+
+    this.revokeLogins(connection.wid, connection.clientId!);
+    this.emit('logout', connection);
+
+    return { tag: 'iq', attrs: { type: 'result' }, content: null };
+  }
+
+  /**
+   * Forget the logins of an account (or of one of its devices) so their sessions can no longer be restored
+   * @private
+   */
+  private revokeLogins(wid: string, clientId?: string): void {
+    for (const [clientToken, login] of this.logins) {
+      if (login.wid === wid && (!clientId || login.clientId === clientId)) {
+        this.logins.delete(clientToken);
+      }
+    }
+  }
+
+  /**
+   * Acknowledge actions, relay messages between connected clients and create groups
+   * @private
+   */
+  private handleAction(connection: MockConnection, node: BinaryNode): BinaryNode {
+    const children = Array.isArray(node.content) ? node.content : [];
+
+    for (const child of children) {
+      if (child.tag === 'message') {
+        connection.send({ tag: 'ack', attrs: { class: 'message', id: child.attrs.id, status: 'sent' }, content: null });
+        this.relay(connection, child);
+      }
+
+      if (child.tag === 'group' && child.attrs.type === 'create') {
+        const jid = `${Date.now()}-${Math.floor(Math.random() * 1e6)}@g.us`;
+        const participants = Array.isArray(child.content) ? child.content : [];
+        this.injectChat({
+          id: jid,
+          name: child.attrs.subject,
+          participants: [connection.wid!, ...participants.map(participant => participant.attrs.jid)]
+        });
+        return { tag: 'response', attrs: { status: '200', jid }, content: participants };
+      }
+    }
+
+    return { tag: 'response', attrs: { status: '200' }, content: null };
+  }
+
+  /**
+   * Forward a message to the other connected clients it is addressed to
+   * @private
+   */
+  private relay(sender: MockConnection, message: BinaryNode): void {
+    const to = message.attrs.to;
+    const group = this.chats.get(to);
+    const recipients = group && Array.isArray(group.content)
+      ? group.content.map(participant => participant.attrs.jid)
+      : [to];
+
+    const forwarded: BinaryNode = {
+      tag: message.tag,
+      attrs: group
+        ? { ...message.attrs, to: undefined, from: to, participant: sender.wid! }
+        : { ...message.attrs, to: undefined, from: sender.wid! },
+      content: message.content
+    };
+
+    for (const connection of this.connections) {
+      if (connection !== sender && connection.wid && recipients.includes(connection.wid)) {
+        connection.send(this.actionNode(forwarded));
+      }
+    }
+  }
+
+  /**
+   * Issue a new login (session keys and tokens) for a client
+   * @private
+   */
+  private createLogin(connection: MockConnection, options: { wid?: string; pushname?: string }): MockLogin {
+    const login: MockLogin = {
+      wid: options.wid || this.options.wid || `${Math.floor(1e10 + Math.random() * 9e10)}@s.whatsapp.net`,
+      pushname: options.pushname || this.options.pushname!,
+      clientId: connection.clientId!,
+      serverToken: randomBytes(20).toString('base64'),
+      clientToken: randomBytes(20).toString('base64'),
+      keys: { encKey: randomBytes(32), macKey: randomBytes(32) }
+    };
+    this.logins.set(login.clientToken, login);
+
+    return login;
+  }
+
+  /**
+   * Send the login success node and switch the connection to encrypted frames
+   * @private
+   */
+  private completeLogin(connection: MockConnection, login: MockLogin, secret?: Buffer): void {
+    connection.send({
+      tag: 'success',
+      attrs: {
+        wid: login.wid,
+        pushname: login.pushname,
+        serverToken: login.serverToken,
+        clientToken: login.clientToken,
+        secret: secret?.toString('base64')
+      },
+      content: null
+    });
+
+    connection.wid = login.wid;
+    connection.qrRef = null;
+    connection.enableFrameCipher(login.keys);
+    this.emit('login', connection);
+  }
+
+  /**
+   * Wrap a node in an action, like server pushes
+   * @private
+   */
+  private actionNode(child: BinaryNode): BinaryNode {
+    return { tag: 'action', attrs: { add: 'relay' }, content: [child] };
+  }
+
+  /**
+   * Find the first child node with a tag
+   * @private
+   */
+  private findChild(node: BinaryNode, tag: string): BinaryNode | undefined {
+    return Array.isArray(node.content) ? node.content.find(child => child.tag === tag) : undefined;
+  }
+
+  /**
+   * Convert attribute values to strings, dropping empty ones
+   * @private
+   */
+  private stringAttrs(attrs: Record<string, any>): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [key, value] of Object.entries(attrs)) {
+      if (value !== undefined && value !== null) {
+        result[key] = String(value);
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Noise Server Certificates
+ *
+ * The server proves that its Noise static key is genuine with a certificate
+ * chain carried as the payload of the second handshake message: an
+ * intermediate certificate signed by the root key, and a leaf certificate for
+ * the static key signed by the intermediate. Signatures are XEdDSA over
+ * Curve25519 keys, as in libsignal: the sign bit of the Ed25519 key travels
+ * in the top bit of the signature.
+ */
+
+import { Root, Type } from 'protobufjs';
+import { ed25519, edwardsToMontgomeryPub } from '@noble/curves/ed25519';
+import { KeyPair } from '../crypto/curve';
+import { ProtocolError } from '../utils/errors';
+
+/**
+ * WhatsApp's long-term root key and its serial
+ */
+export const WA_ROOT_PUBLIC_KEY = Buffer.from('142375574d0a587166aae71ebe516437c4a28b73e3695c6ce1f7f9545da8ee6b', 'hex');
+export const WA_ROOT_SERIAL = 0;
+
+/**
+ * How the client decides a server static key is genuine
+ */
+export interface NoiseServerTrust {
+  // Curve25519 root key the certificate chain must lead to (WhatsApp's when omitted)
+  rootKey?: Buffer;
+  // Serial of the root key, which the intermediate names as its issuer
+  rootSerial?: number;
+  // Expected server static key; when set it is pinned and certificates are not checked
+  staticKey?: Buffer;
+}
+
+/**
+ * Signed part of a certificate
+ */
+export interface NoiseCertificateDetails {
+  serial: number;
+  issuerSerial: number;
+  key: Buffer;
+  notBefore?: number;
+  notAfter?: number;
+}
+
+// Field numbers follow WhatsApp's CertChain message
+const CERT_SCHEMA = {
+  nested: {
+    CertChain: {
+      fields: {
+        leaf: { type: 'NoiseCertificate', id: 1 },
+        intermediate: { type: 'NoiseCertificate', id: 2 }
+      },
+      nested: {
+        NoiseCertificate: {
+          fields: {
+            details: { type: 'bytes', id: 1 },
+            signature: { type: 'bytes', id: 2 }
+          },
+          nested: {
+            Details: {
+              fields: {
+                serial: { type: 'uint32', id: 1 },
+                issuerSerial: { type: 'uint32', id: 2 },
+                key: { type: 'bytes', id: 3 },
+                notBefore: { type: 'uint64', id: 4 },
+                notAfter: { type: 'uint64', id: 5 }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+const root = Root.fromJSON(CERT_SCHEMA);
+const CertChainProto: Type = root.lookupType('CertChain');
+const DetailsProto: Type = root.lookupType('CertChain.NoiseCertificate.Details');
+
+/**
+ * Generate a key pair that signs certificates: an Ed25519 private key and the
+ * Curve25519 form of its public key, which is what verifiers are given
+ * @returns {KeyPair} Signing key pair
+ */
+export function generateCertificateKeyPair(): KeyPair {
+  const privateKey = Buffer.from(ed25519.utils.randomPrivateKey());
+  return {
+    privateKey,
+    publicKey: Buffer.from(edwardsToMontgomeryPub(ed25519.getPublicKey(privateKey)))
+  };
+}
+
+/**
+ * Sign a message with a certificate key pair (XEdDSA signature format)
+ * @param {KeyPair} keyPair Key pair from generateCertificateKeyPair()
+ * @param {Buffer} message Message to sign
+ * @returns {Buffer} 64 byte signature
+ */
+export function signCertificateData(keyPair: KeyPair, message: Buffer): Buffer {
+  const signature = Buffer.from(ed25519.sign(message, keyPair.privateKey));
+  signature[63] |= ed25519.getPublicKey(keyPair.privateKey)[31] & 0x80;
+  return signature;
+}
+
+/**
+ * Verify an XEdDSA signature made with a Curve25519 key
+ * @param {Buffer} publicKey Curve25519 public key
+ * @param {Buffer} message Signed message
+ * @param {Buffer} signature 64 byte signature
+ * @returns {Boolean} Whether the signature is valid
+ */
+export function verifyCertificateData(publicKey: Buffer, message: Buffer, signature: Buffer): boolean {
+  if (publicKey.length !== 32 || signature.length !== 64) return false;
+
+  try {
+    const edwardsKey = montgomeryToEdwards(publicKey);
+    edwardsKey[31] |= signature[63] & 0x80;
+
+    const ed25519Signature = Buffer.from(signature);
+    ed25519Signature[63] &= 0x7F;
+
+    return ed25519.verify(ed25519Signature, message, edwardsKey);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Issue a certificate chain for a server static key
+ * @param {KeyPair} rootKeyPair Root key pair from generateCertificateKeyPair()
+ * @param {Buffer} staticKey Server Noise static public key
+ * @param {Object} options Root serial and validity period (ms) of the certificates
+ * @returns {Buffer} Encoded CertChain, the payload of the second handshake message
+ */
+export function createCertificateChain(
+  rootKeyPair: KeyPair,
+  staticKey: Buffer,
+  options: { rootSerial?: number; validFor?: number } = {}
+): Buffer {
+  const rootSerial = options.rootSerial ?? WA_ROOT_SERIAL;
+  const now = Math.floor(Date.now() / 1000);
+  const notAfter = now + Math.floor((options.validFor ?? 24 * 60 * 60 * 1000) / 1000);
+  const intermediateKeyPair = generateCertificateKeyPair();
+
+  const issue = (signer: KeyPair, details: NoiseCertificateDetails) => {
+    const encoded = Buffer.from(DetailsProto.encode(DetailsProto.fromObject(details)).finish());
+    return { details: encoded, signature: signCertificateData(signer, encoded) };
+  };
+
+  const intermediate = issue(rootKeyPair, {
+    serial: rootSerial + 1,
+    issuerSerial: rootSerial,
+    key: intermediateKeyPair.publicKey,
+    notBefore: now,
+    notAfter
+  });
+  const leaf = issue(intermediateKeyPair, {
+    serial: rootSerial + 2,
+    issuerSerial: rootSerial + 1,
+    key: staticKey,
+    notBefore: now,
+    notAfter
+  });
+
+  return Buffer.from(CertChainProto.encode(CertChainProto.fromObject({ leaf, intermediate })).finish());
+}
+
+/**
+ * Check that a server static key is genuine: either it is the pinned key, or
+ * the certificate chain sent with it leads to the trusted root
+ * @param {NoiseServerTrust} trust Pinned key or root key to trust
+ * @param {Buffer} staticKey Static key the server used in the handshake
+ * @param {Buffer} payload Payload of the second handshake message
+ * @param {Number} now Current time (ms), for the validity periods
+ * @throws {ProtocolError} When the server cannot be trusted
+ */
+export function verifyServerIdentity(trust: NoiseServerTrust, staticKey: Buffer, payload: Buffer, now: number = Date.now()): void {
+  if (trust.staticKey) {
+    if (!trust.staticKey.equals(staticKey)) {
+      throw new ProtocolError('Server static key does not match the pinned key', 'NOISE_SERVER_UNTRUSTED');
+    }
+    return;
+  }
+
+  const rootKey = trust.rootKey || WA_ROOT_PUBLIC_KEY;
+  const rootSerial = trust.rootSerial ?? WA_ROOT_SERIAL;
+
+  let chain: any;
+  try {
+    chain = CertChainProto.toObject(CertChainProto.decode(payload));
+  } catch (error) {
+    throw new ProtocolError(`Invalid server certificate chain: ${error.message}`, 'NOISE_SERVER_UNTRUSTED');
+  }
+
+  const intermediate = verifyCertificate(chain.intermediate, rootKey, rootSerial, now, 'intermediate');
+  const leaf = verifyCertificate(chain.leaf, intermediate.key, intermediate.serial, now, 'leaf');
+
+  if (!leaf.key.equals(staticKey)) {
+    throw new ProtocolError('Server certificate is not for the handshake static key', 'NOISE_SERVER_UNTRUSTED');
+  }
+}
+
+/**
+ * Check one certificate of the chain against its issuer
+ * @private
+ */
+function verifyCertificate(
+  certificate: { details?: Uint8Array; signature?: Uint8Array } | undefined,
+  issuerKey: Buffer,
+  issuerSerial: number,
+  now: number,
+  name: string
+): NoiseCertificateDetails {
+  if (!certificate?.details || !certificate.signature) {
+    throw new ProtocolError(`Server ${name} certificate is missing`, 'NOISE_SERVER_UNTRUSTED');
+  }
+
+  const encoded = Buffer.from(certificate.details);
+  if (!verifyCertificateData(issuerKey, encoded, Buffer.from(certificate.signature))) {
+    throw new ProtocolError(`Server ${name} certificate has an invalid signature`, 'NOISE_SERVER_UNTRUSTED');
+  }
+
+  const details = DetailsProto.toObject(DetailsProto.decode(encoded), { longs: Number, defaults: true }) as NoiseCertificateDetails;
+  const seconds = Math.floor(now / 1000);
+
+  if (details.issuerSerial !== issuerSerial) {
+    throw new ProtocolError(`Server ${name} certificate was issued by serial ${details.issuerSerial}`, 'NOISE_SERVER_UNTRUSTED');
+  }
+  if ((details.notBefore && seconds < details.notBefore) || (details.notAfter && seconds > details.notAfter)) {
+    throw new ProtocolError(`Server ${name} certificate is expired or not yet valid`, 'NOISE_SERVER_UNTRUSTED');
+  }
+  if (!details.key || details.key.length !== 32) {
+    throw new ProtocolError(`Server ${name} certificate has no key`, 'NOISE_SERVER_UNTRUSTED');
+  }
+
+  return { ...details, key: Buffer.from(details.key) };
+}
+
+/**
+ * Convert a Curve25519 public key to the Ed25519 key with a positive sign bit
+ * @private
+ */
+function montgomeryToEdwards(publicKey: Buffer): Buffer {
+  const Fp = ed25519.CURVE.Fp;
+  const u = Fp.create(BigInt(`0x${Buffer.from(publicKey).reverse().toString('hex')}`) & ((1n << 255n) - 1n));
+  const y = Fp.div(Fp.sub(u, Fp.ONE), Fp.add(u, Fp.ONE));
+  return Buffer.from(Fp.toBytes(y));
+}
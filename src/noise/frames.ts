@@ -0,0 +1,94 @@
+/**
+ * Noise Frames
+ *
+ * Length prefixed framing for the Noise connection. Every frame starts with a
+ * 3 byte big endian length; the very first frame sent by the client is
+ * preceded by the intro header.
+ */
+
+import { ProtocolError } from '../utils/errors';
+
+/**
+ * Intro header sent once at the start of the connection ("WA", protocol version, dictionary version).
+ * It is also used as the Noise prologue.
+ */
+export const NOISE_INTRO_HEADER = Buffer.from([0x57, 0x41, 6, 2]);
+
+/**
+ * Largest payload a 3 byte length prefix can describe
+ */
+export const MAX_NOISE_FRAME_LENGTH = (1 << 24) - 1;
+
+/**
+ * Prefix a payload with its 3 byte length
+ * @param {Buffer} payload Frame payload
+ * @returns {Buffer} Length prefixed frame
+ */
+export function encodeNoiseFrame(payload: Buffer): Buffer {
+  if (payload.length > MAX_NOISE_FRAME_LENGTH) {
+    throw new ProtocolError(`Noise frame too large (${payload.length} bytes)`, 'FRAME_TOO_LARGE');
+  }
+
+  const header = Buffer.alloc(3);
+  header.writeUIntBE(payload.length, 0, 3);
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Reassembles length prefixed frames from socket data
+ */
+export class NoiseFrameDecoder {
+  private buffer: Buffer = Buffer.alloc(0);
+  private expectHeader: boolean;
+
+  /**
+   * Create a new frame decoder
+   * @param {Boolean} expectHeader Whether the stream starts with the intro header
+   */
+  constructor(expectHeader: boolean = false) {
+    this.expectHeader = expectHeader;
+  }
+
+  /**
+   * Append socket data and return every complete frame
+   * @param {Buffer} data Socket data
+   * @returns {Buffer[]} Complete frame payloads
+   */
+  push(data: Buffer): Buffer[] {
+    this.buffer = Buffer.concat([this.buffer, data]);
+
+    if (this.expectHeader) {
+      if (this.buffer.length < NOISE_INTRO_HEADER.length) {
+        return [];
+      }
+
+      if (!this.buffer.subarray(0, NOISE_INTRO_HEADER.length).equals(NOISE_INTRO_HEADER)) {
+        throw new ProtocolError('Invalid Noise intro header', 'INVALID_INTRO_HEADER');
+      }
+
+      this.buffer = this.buffer.subarray(NOISE_INTRO_HEADER.length);
+      this.expectHeader = false;
+    }
+
+    const frames: Buffer[] = [];
+
+    while (this.buffer.length >= 3) {
+      const length = this.buffer.readUIntBE(0, 3);
+      if (this.buffer.length < 3 + length) {
+        break;
+      }
+
+      frames.push(Buffer.from(this.buffer.subarray(3, 3 + length)));
+      this.buffer = this.buffer.subarray(3 + length);
+    }
+
+    return frames;
+  }
+
+  /**
+   * Drop any partially received data
+   */
+  reset(): void {
+    this.buffer = Buffer.alloc(0);
+  }
+}
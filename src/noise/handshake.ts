@@ -0,0 +1,389 @@
+/**
+ * Noise Handshake
+ *
+ * Noise_XX_25519_AESGCM_SHA256 handshake state machine and transport cipher
+ * states, as used by multi-device WhatsApp Web before any binary node is sent.
+ *
+ *   -> e
+ *   <- e, ee, s, es
+ *   -> s, se
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac } from 'crypto';
+import { KeyPair, generateCurveKeyPair, curveSharedSecret } from '../crypto/curve';
+import { ProtocolError } from '../utils/errors';
+
+const PROTOCOL_NAME = 'Noise_XX_25519_AESGCM_SHA256';
+const DH_LENGTH = 32;
+const TAG_LENGTH = 16;
+
+export type NoiseRole = 'initiator' | 'responder';
+
+/**
+ * HMAC based key derivation as defined by the Noise specification
+ * @param {Buffer} chainingKey Chaining key
+ * @param {Buffer} input Input key material
+ * @returns {Buffer[]} Two 32 byte outputs
+ */
+function noiseHkdf(chainingKey: Buffer, input: Buffer): [Buffer, Buffer] {
+  const tempKey = createHmac('sha256', chainingKey).update(input).digest();
+  const output1 = createHmac('sha256', tempKey).update(Buffer.from([0x01])).digest();
+  const output2 = createHmac('sha256', tempKey).update(Buffer.concat([output1, Buffer.from([0x02])])).digest();
+  return [output1, output2];
+}
+
+/**
+ * AES-256-GCM cipher state with a 64 bit nonce counter
+ */
+export class CipherState {
+  private key: Buffer | null;
+  private nonce = 0;
+
+  /**
+   * Create a new cipher state
+   * @param {Buffer|null} key 32 byte key, or null for pass-through
+   */
+  constructor(key: Buffer | null = null) {
+    this.key = key;
+  }
+
+  /**
+   * Whether a key has been set
+   * @returns {Boolean} Whether the state encrypts
+   */
+  hasKey(): boolean {
+    return this.key !== null;
+  }
+
+  /**
+   * Encrypt with associated data
+   * @param {Buffer} plaintext Plaintext
+   * @param {Buffer} ad Associated data
+   * @returns {Buffer} Ciphertext followed by the 16 byte tag
+   */
+  encrypt(plaintext: Buffer, ad: Buffer = Buffer.alloc(0)): Buffer {
+    if (!this.key) return plaintext;
+
+    const cipher = createCipheriv('aes-256-gcm', this.key, this.nextIv());
+    cipher.setAAD(ad);
+    return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+  }
+
+  /**
+   * Decrypt with associated data
+   * @param {Buffer} ciphertext Ciphertext followed by the 16 byte tag
+   * @param {Buffer} ad Associated data
+   * @returns {Buffer} Plaintext
+   */
+  decrypt(ciphertext: Buffer, ad: Buffer = Buffer.alloc(0)): Buffer {
+    if (!this.key) return ciphertext;
+
+    if (ciphertext.length < TAG_LENGTH) {
+      throw new ProtocolError('Noise ciphertext too short', 'NOISE_DECRYPT_FAILED');
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', this.key, this.nextIv());
+    decipher.setAAD(ad);
+    decipher.setAuthTag(ciphertext.subarray(ciphertext.length - TAG_LENGTH));
+
+    try {
+      return Buffer.concat([
+        decipher.update(ciphertext.subarray(0, ciphertext.length - TAG_LENGTH)),
+        decipher.final()
+      ]);
+    } catch (error) {
+      throw new ProtocolError('Noise frame authentication failed', 'NOISE_DECRYPT_FAILED');
+    }
+  }
+
+  /**
+   * Build the 12 byte IV for the current nonce and advance the counter
+   * @returns {Buffer} IV
+   * @private
+   */
+  private nextIv(): Buffer {
+    const iv = Buffer.alloc(12);
+    iv.writeBigUInt64BE(BigInt(this.nonce++), 4);
+    return iv;
+  }
+}
+
+/**
+ * Pair of cipher states produced by a completed handshake
+ */
+export class NoiseTransport {
+  private sendCipher: CipherState;
+  private receiveCipher: CipherState;
+
+  /**
+   * Create a new transport
+   * @param {CipherState} sendCipher Cipher for outbound frames
+   * @param {CipherState} receiveCipher Cipher for inbound frames
+   */
+  constructor(sendCipher: CipherState, receiveCipher: CipherState) {
+    this.sendCipher = sendCipher;
+    this.receiveCipher = receiveCipher;
+  }
+
+  /**
+   * Encrypt an outbound frame
+   * @param {Buffer} plaintext Frame payload
+   * @returns {Buffer} Ciphertext
+   */
+  encrypt(plaintext: Buffer): Buffer {
+    return this.sendCipher.encrypt(plaintext);
+  }
+
+  /**
+   * Decrypt an inbound frame
+   * @param {Buffer} ciphertext Frame ciphertext
+   * @returns {Buffer} Frame payload
+   */
+  decrypt(ciphertext: Buffer): Buffer {
+    return this.receiveCipher.decrypt(ciphertext);
+  }
+}
+
+/**
+ * Noise XX handshake state machine for either side of the connection
+ */
+export class NoiseHandshake {
+  private role: NoiseRole;
+  private staticKeyPair: KeyPair;
+  private ephemeralKeyPair: KeyPair | null = null;
+  private remoteEphemeral: Buffer | null = null;
+  private remoteStatic: Buffer | null = null;
+  private chainingKey: Buffer;
+  private hash: Buffer;
+  private cipher = new CipherState();
+  private step = 0;
+
+  /**
+   * Create a new handshake
+   * @param {Object} options Handshake options
+   */
+  constructor(options: {
+    role: NoiseRole;
+    staticKeyPair?: KeyPair;
+    prologue?: Buffer;
+  }) {
+    this.role = options.role;
+    this.staticKeyPair = options.staticKeyPair || generateCurveKeyPair();
+
+    // Protocol names of 32 bytes or less are zero padded instead of hashed
+    const name = Buffer.from(PROTOCOL_NAME, 'utf8');
+    this.hash = name.length <= 32 ? Buffer.concat([name, Buffer.alloc(32 - name.length)]) : this.sha256(name);
+    this.chainingKey = this.hash;
+
+    this.mixHash(options.prologue || Buffer.alloc(0));
+  }
+
+  /**
+   * Whether all three handshake messages have been exchanged
+   * @returns {Boolean} Whether the handshake is complete
+   */
+  isComplete(): boolean {
+    return this.step === 3;
+  }
+
+  /**
+   * Get the remote static public key (known after the second message)
+   * @returns {Buffer|null} Remote static key
+   */
+  getRemoteStaticKey(): Buffer | null {
+    return this.remoteStatic;
+  }
+
+  /**
+   * Get our static public key
+   * @returns {Buffer} Static public key
+   */
+  getStaticPublicKey(): Buffer {
+    return this.staticKeyPair.publicKey;
+  }
+
+  /**
+   * Write the next handshake message
+   * @param {Buffer} payload Optional payload carried by the message
+   * @returns {Buffer} Handshake message
+   */
+  writeMessage(payload: Buffer = Buffer.alloc(0)): Buffer {
+    this.expectTurn('write');
+
+    const parts: Buffer[] = [];
+
+    if (this.step === 0) {
+      // -> e
+      parts.push(this.writeEphemeral());
+    } else if (this.step === 1) {
+      // <- e, ee, s, es
+      parts.push(this.writeEphemeral());
+      this.mixKey(curveSharedSecret(this.ephemeralKeyPair!.privateKey, this.remoteEphemeral!));
+      parts.push(this.encryptAndHash(this.staticKeyPair.publicKey));
+      this.mixKey(curveSharedSecret(this.staticKeyPair.privateKey, this.remoteEphemeral!));
+    } else {
+      // -> s, se
+      parts.push(this.encryptAndHash(this.staticKeyPair.publicKey));
+      this.mixKey(curveSharedSecret(this.staticKeyPair.privateKey, this.remoteEphemeral!));
+    }
+
+    parts.push(this.encryptAndHash(payload));
+    this.step++;
+
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * Read the next handshake message
+   * @param {Buffer} message Handshake message
+   * @returns {Buffer} Payload carried by the message
+   */
+  readMessage(message: Buffer): Buffer {
+    this.expectTurn('read');
+
+    let offset = 0;
+    const take = (length: number): Buffer => {
+      if (offset + length > message.length) {
+        throw new ProtocolError(`Noise handshake message ${this.step + 1} is truncated`, 'NOISE_HANDSHAKE_FAILED');
+      }
+      const part = message.subarray(offset, offset + length);
+      offset += length;
+      return part;
+    };
+
+    if (this.step === 0) {
+      // -> e
+      this.readEphemeral(take(DH_LENGTH));
+    } else if (this.step === 1) {
+      // <- e, ee, s, es
+      this.readEphemeral(take(DH_LENGTH));
+      this.mixKey(curveSharedSecret(this.ephemeralKeyPair!.privateKey, this.remoteEphemeral!));
+      this.remoteStatic = this.decryptAndHash(take(DH_LENGTH + TAG_LENGTH));
+      this.mixKey(curveSharedSecret(this.ephemeralKeyPair!.privateKey, this.remoteStatic));
+    } else {
+      // -> s, se
+      this.remoteStatic = this.decryptAndHash(take(DH_LENGTH + TAG_LENGTH));
+      this.mixKey(curveSharedSecret(this.ephemeralKeyPair!.privateKey, this.remoteStatic));
+    }
+
+    const payload = this.decryptAndHash(message.subarray(offset));
+    this.step++;
+
+    return payload;
+  }
+
+  /**
+   * Split the final handshake state into transport cipher states
+   * @returns {NoiseTransport} Transport for the rest of the connection
+   */
+  split(): NoiseTransport {
+    if (!this.isComplete()) {
+      throw new ProtocolError('Noise handshake is not complete', 'NOISE_HANDSHAKE_FAILED');
+    }
+
+    const [initiatorKey, responderKey] = noiseHkdf(this.chainingKey, Buffer.alloc(0));
+    const initiatorCipher = new CipherState(initiatorKey);
+    const responderCipher = new CipherState(responderKey);
+
+    return this.role === 'initiator'
+      ? new NoiseTransport(initiatorCipher, responderCipher)
+      : new NoiseTransport(responderCipher, initiatorCipher);
+  }
+
+  /**
+   * Ensure it is our turn to read or write
+   * @param {String} action 'read' or 'write'
+   * @private
+   */
+  private expectTurn(action: 'read' | 'write'): void {
+    if (this.isComplete()) {
+      throw new ProtocolError('Noise handshake already complete', 'NOISE_HANDSHAKE_FAILED');
+    }
+
+    // The initiator writes messages 1 and 3, the responder writes message 2
+    const initiatorWrites = this.step !== 1;
+    const writes = this.role === 'initiator' ? initiatorWrites : !initiatorWrites;
+
+    if ((action === 'write') !== writes) {
+      throw new ProtocolError(
+        `Unexpected Noise ${action} at handshake message ${this.step + 1} for ${this.role}`,
+        'NOISE_HANDSHAKE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Generate and write our ephemeral key
+   * @returns {Buffer} Ephemeral public key
+   * @private
+   */
+  private writeEphemeral(): Buffer {
+    this.ephemeralKeyPair = generateCurveKeyPair();
+    this.mixHash(this.ephemeralKeyPair.publicKey);
+    return this.ephemeralKeyPair.publicKey;
+  }
+
+  /**
+   * Read the remote ephemeral key
+   * @param {Buffer} key Ephemeral public key
+   * @private
+   */
+  private readEphemeral(key: Buffer): void {
+    this.remoteEphemeral = Buffer.from(key);
+    this.mixHash(this.remoteEphemeral);
+  }
+
+  /**
+   * Mix data into the handshake hash
+   * @param {Buffer} data Data to mix
+   * @private
+   */
+  private mixHash(data: Buffer): void {
+    this.hash = this.sha256(Buffer.concat([this.hash, data]));
+  }
+
+  /**
+   * Mix a DH result into the chaining key and rekey the cipher
+   * @param {Buffer} input Input key material
+   * @private
+   */
+  private mixKey(input: Buffer): void {
+    const [chainingKey, key] = noiseHkdf(this.chainingKey, input);
+    this.chainingKey = chainingKey;
+    this.cipher = new CipherState(key);
+  }
+
+  /**
+   * Encrypt with the handshake hash as associated data
+   * @param {Buffer} plaintext Plaintext
+   * @returns {Buffer} Ciphertext
+   * @private
+   */
+  private encryptAndHash(plaintext: Buffer): Buffer {
+    const ciphertext = this.cipher.encrypt(plaintext, this.hash);
+    this.mixHash(ciphertext);
+    return ciphertext;
+  }
+
+  /**
+   * Decrypt with the handshake hash as associated data
+   * @param {Buffer} ciphertext Ciphertext
+   * @returns {Buffer} Plaintext
+   * @private
+   */
+  private decryptAndHash(ciphertext: Buffer): Buffer {
+    const plaintext = this.cipher.decrypt(ciphertext, this.hash);
+    this.mixHash(ciphertext);
+    return plaintext;
+  }
+
+  /**
+   * SHA-256 digest
+   * @param {Buffer} data Data to hash
+   * @returns {Buffer} Digest
+   * @private
+   */
+  private sha256(data: Buffer): Buffer {
+    return createHash('sha256').update(data).digest();
+  }
+}
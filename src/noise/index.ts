@@ -0,0 +1,20 @@
+/**
+ * Noise Module
+ *
+ * Noise XX handshake and transport encryption for multi-device connections.
+ */
+
+export { CipherState, NoiseHandshake, NoiseRole, NoiseTransport } from './handshake';
+export { NOISE_INTRO_HEADER, MAX_NOISE_FRAME_LENGTH, NoiseFrameDecoder, encodeNoiseFrame } from './frames';
+export { NoiseSession, NoiseSessionOptions } from './session';
+export {
+  WA_ROOT_PUBLIC_KEY,
+  WA_ROOT_SERIAL,
+  NoiseServerTrust,
+  NoiseCertificateDetails,
+  generateCertificateKeyPair,
+  signCertificateData,
+  verifyCertificateData,
+  createCertificateChain,
+  verifyServerIdentity
+} from './certificate';
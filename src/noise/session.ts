@@ -0,0 +1,185 @@
+/**
+ * Noise Session
+ *
+ * Drives a Noise handshake over an arbitrary byte transport (usually a
+ * WebSocket) and then encrypts/decrypts length prefixed transport frames.
+ * The same class is used by the client (initiator) and by local handshake
+ * responders such as test servers.
+ */
+
+import { EventEmitter } from 'events';
+import { KeyPair } from '../crypto/curve';
+import { ProtocolError } from '../utils/errors';
+import { NoiseHandshake, NoiseRole, NoiseTransport } from './handshake';
+import { NOISE_INTRO_HEADER, NoiseFrameDecoder, encodeNoiseFrame } from './frames';
+import { NoiseServerTrust, verifyServerIdentity } from './certificate';
+
+export interface NoiseSessionOptions {
+  role: NoiseRole;
+  send: (data: Buffer) => void;
+  staticKeyPair?: KeyPair;
+  payload?: Buffer;
+  // Initiator only: how to check the server static key before finishing the handshake
+  trust?: NoiseServerTrust;
+}
+
+/**
+ * Noise connection for one side of a socket.
+ *
+ * Events:
+ * - 'handshake' ({ remoteStaticKey, payload }) when the handshake completes
+ * - 'frame' (Buffer) for every decrypted transport frame
+ */
+export class NoiseSession extends EventEmitter {
+  private role: NoiseRole;
+  private sendRaw: (data: Buffer) => void;
+  private payload: Buffer;
+  private trust?: NoiseServerTrust;
+  private handshake: NoiseHandshake;
+  private transport: NoiseTransport | null = null;
+  private decoder: NoiseFrameDecoder;
+  private headerSent = false;
+
+  /**
+   * Create a new Noise session
+   * @param {NoiseSessionOptions} options Session options
+   */
+  constructor(options: NoiseSessionOptions) {
+    super();
+
+    this.role = options.role;
+    this.sendRaw = options.send;
+    this.payload = options.payload || Buffer.alloc(0);
+    this.trust = options.trust;
+    this.handshake = new NoiseHandshake({
+      role: options.role,
+      staticKeyPair: options.staticKeyPair,
+      prologue: NOISE_INTRO_HEADER
+    });
+
+    // Only the responder receives the intro header
+    this.decoder = new NoiseFrameDecoder(options.role === 'responder');
+  }
+
+  /**
+   * Start the handshake (initiator only) and wait for it to complete
+   * @param {Number} timeout Handshake timeout in milliseconds
+   * @returns {Promise<void>}
+   */
+  start(timeout: number = 20000): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new ProtocolError('Noise handshake timed out', 'NOISE_HANDSHAKE_TIMEOUT'));
+      }, timeout);
+
+      const onHandshake = () => {
+        cleanup();
+        resolve();
+      };
+
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.off('handshake', onHandshake);
+        this.off('error', onError);
+      };
+
+      this.on('handshake', onHandshake);
+      this.on('error', onError);
+
+      if (this.role === 'initiator') {
+        try {
+          this.writeFrame(this.handshake.writeMessage());
+        } catch (error) {
+          onError(error);
+        }
+      }
+    });
+  }
+
+  /**
+   * Whether the transport is ready for encrypted frames
+   * @returns {Boolean} Whether the handshake is complete
+   */
+  isEstablished(): boolean {
+    return this.transport !== null;
+  }
+
+  /**
+   * Feed raw socket data into the session
+   * @param {Buffer} data Socket data
+   */
+  receive(data: Buffer): void {
+    try {
+      for (const frame of this.decoder.push(data)) {
+        if (this.transport) {
+          this.emit('frame', this.transport.decrypt(frame));
+        } else {
+          this.continueHandshake(frame);
+        }
+      }
+    } catch (error) {
+      this.emit('error', error);
+    }
+  }
+
+  /**
+   * Encrypt and send a transport frame
+   * @param {Buffer} payload Frame payload
+   */
+  send(payload: Buffer): void {
+    if (!this.transport) {
+      throw new ProtocolError('Noise handshake is not complete', 'NOISE_NOT_ESTABLISHED');
+    }
+
+    this.writeFrame(this.transport.encrypt(payload));
+  }
+
+  /**
+   * Process a handshake message from the peer
+   * @param {Buffer} message Handshake message
+   * @private
+   */
+  private continueHandshake(message: Buffer): void {
+    const payload = this.handshake.readMessage(message);
+
+    // The server's static key and certificate arrive in message 2, before we reveal ours
+    if (this.role === 'initiator' && this.trust && !this.handshake.isComplete()) {
+      verifyServerIdentity(this.trust, this.handshake.getRemoteStaticKey()!, payload);
+    }
+
+    if (!this.handshake.isComplete()) {
+      this.writeFrame(this.handshake.writeMessage(this.payload));
+    }
+
+    if (this.handshake.isComplete()) {
+      this.transport = this.handshake.split();
+      this.emit('handshake', {
+        remoteStaticKey: this.handshake.getRemoteStaticKey(),
+        payload
+      });
+    }
+  }
+
+  /**
+   * Frame and send data, preceded by the intro header on the first client frame
+   * @param {Buffer} payload Frame payload
+   * @private
+   */
+  private writeFrame(payload: Buffer): void {
+    const frame = encodeNoiseFrame(payload);
+
+    if (this.role === 'initiator' && !this.headerSent) {
+      this.headerSent = true;
+      this.sendRaw(Buffer.concat([NOISE_INTRO_HEADER, frame]));
+      return;
+    }
+
+    this.sendRaw(frame);
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Outbox Module
+ *
+ * Durable queue of outgoing messages that survives reconnects and restarts.
+ */
+
+export { Outbox, OutboxOptions, OutboxEntry } from './outbox';
@@ -0,0 +1,329 @@
+/**
+ * Outbox
+ *
+ * Durable queue of outgoing send requests. Requests (not encoded frames) are
+ * kept in order on disk with their attempt count and expiry, so they survive
+ * a crash and are encrypted afresh for whatever session is current when the
+ * connection is back. Each entry is keyed by its message ID: adding the same
+ * ID twice is a no-op, and a request re-sent after a crash keeps its ID.
+ * Requests of one group (a chat) go out in order; a failed one waits for its
+ * retry without holding back the other groups.
+ */
+
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { PassphraseCipher } from '../auth-state/encryption';
+import { readJson, writeJson } from '../auth-state/file-store';
+import { SessionError } from '../utils/errors';
+
+export interface OutboxOptions {
+  // File the outbox is kept in; without one it only lives in memory
+  file?: string;
+  // How long (ms) a request may wait before it is given up
+  ttl?: number;
+  // Send attempts before a request is given up
+  maxAttempts?: number;
+  // Wait (ms) before retrying a failed request, doubled after every failure
+  retryDelay?: number;
+  // Longest wait (ms) between retries
+  maxRetryDelay?: number;
+  // How often (ms) to look for expired requests
+  sweepInterval?: number;
+  // Encrypt the file with this passphrase, like the session files
+  passphrase?: string;
+}
+
+/**
+ * Queued send request
+ */
+export interface OutboxEntry<T = unknown> {
+  id: string;
+  request: T;
+  // Requests of the same group are sent in order
+  group?: string;
+  attempts: number;
+  createdAt: number;
+  expiresAt: number;
+  // When a failed request may be tried again
+  retryAt?: number;
+  lastError?: string;
+}
+
+const OUTBOX_VERSION = 1;
+
+/**
+ * Ordered, persistent queue of send requests.
+ *
+ * Events:
+ * - 'expired' (OutboxEntry) for every request dropped because it waited too long
+ * - 'error' (Error) when the outbox file cannot be written
+ */
+export class Outbox<T = unknown> extends EventEmitter {
+  private options: Required<Omit<OutboxOptions, 'file' | 'passphrase'>> & { file?: string };
+  private cipher: PassphraseCipher | null;
+  private queue: OutboxEntry<T>[] = [];
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private sweeper: NodeJS.Timeout | null = null;
+
+  /**
+   * Create a new outbox
+   * @param {OutboxOptions} options File, encryption, expiry and retry settings
+   */
+  constructor(options: OutboxOptions = {}) {
+    super();
+    const { passphrase, ...settings } = options;
+    this.options = {
+      ttl: 24 * 60 * 60 * 1000,
+      maxAttempts: 5,
+      retryDelay: 2000,
+      maxRetryDelay: 60000,
+      sweepInterval: 60000,
+      ...settings
+    };
+    this.cipher = passphrase ? new PassphraseCipher(passphrase) : null;
+  }
+
+  /**
+   * Number of queued requests
+   * @returns {Number}
+   */
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Read the queued requests from disk. Only the first call reads; adding
+   * and clearing wait for it, so the file is never overwritten unread.
+   * @returns {Promise<void>}
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      // A failed read is tried again by the next call
+      this.loading = this.read().catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Queue a request, unless one with the same ID is queued already
+   * @param {String} id Request ID (the message ID)
+   * @param {*} request Send request
+   * @param {String} group Group the request is kept in order with (the chat)
+   * @returns {Promise<OutboxEntry>} Queued entry
+   */
+  async add(id: string, request: T, group?: string): Promise<OutboxEntry<T>> {
+    await this.load();
+
+    const existing = this.get(id);
+    if (existing) return existing;
+
+    const now = Date.now();
+    const entry: OutboxEntry<T> = { id, request, group, attempts: 0, createdAt: now, expiresAt: now + this.options.ttl };
+    this.queue.push(entry);
+    await this.persist();
+
+    return entry;
+  }
+
+  /**
+   * Get a queued request
+   * @param {String} id Request ID
+   * @returns {OutboxEntry|undefined}
+   */
+  get(id: string): OutboxEntry<T> | undefined {
+    return this.queue.find(entry => entry.id === id);
+  }
+
+  /**
+   * Oldest queued request
+   * @returns {OutboxEntry|undefined}
+   */
+  peek(): OutboxEntry<T> | undefined {
+    return this.queue[0];
+  }
+
+  /**
+   * Oldest request that may be sent now: its retry is due and no older
+   * request of its group is still queued
+   * @param {Number} now Current time (ms)
+   * @param {String} group Only consider the requests of this group
+   * @returns {OutboxEntry|undefined}
+   */
+  next(now: number = Date.now(), group?: string): OutboxEntry<T> | undefined {
+    const blocked = new Set<string>();
+
+    for (const entry of this.queue) {
+      if (group !== undefined && entry.group !== group) continue;
+      if (entry.group !== undefined && blocked.has(entry.group)) continue;
+      if (!entry.retryAt || entry.retryAt <= now) return entry;
+      if (entry.group !== undefined) blocked.add(entry.group);
+    }
+    return undefined;
+  }
+
+  /**
+   * When the earliest waiting retry is due (of requests that are first in their group)
+   * @returns {Number|undefined} Time (ms), or undefined when no request waits for a retry
+   */
+  nextRetryAt(): number | undefined {
+    const seen = new Set<string>();
+    let earliest: number | undefined;
+
+    for (const entry of this.queue) {
+      if (entry.group !== undefined) {
+        if (seen.has(entry.group)) continue;
+        seen.add(entry.group);
+      }
+      if (entry.retryAt && (earliest === undefined || entry.retryAt < earliest)) {
+        earliest = entry.retryAt;
+      }
+    }
+    return earliest;
+  }
+
+  /**
+   * All queued requests, oldest first
+   * @returns {OutboxEntry[]}
+   */
+  entries(): OutboxEntry<T>[] {
+    return [...this.queue];
+  }
+
+  /**
+   * Count a failed send attempt of a request and set when it may be retried
+   * @param {String} id Request ID
+   * @param {Error} error Why the attempt failed
+   * @returns {Promise<Boolean>} Whether the request has attempts left
+   */
+  async recordAttempt(id: string, error: Error): Promise<boolean> {
+    const entry = this.get(id);
+    if (!entry) return false;
+
+    entry.attempts++;
+    entry.lastError = error.message;
+    entry.retryAt = Date.now() + Math.min(
+      this.options.retryDelay * 2 ** (entry.attempts - 1),
+      this.options.maxRetryDelay
+    );
+    await this.persist();
+
+    return entry.attempts < this.options.maxAttempts;
+  }
+
+  /**
+   * Remove a request (sent or given up)
+   * @param {String} id Request ID
+   * @returns {Promise<OutboxEntry|undefined>} The removed entry
+   */
+  async remove(id: string): Promise<OutboxEntry<T> | undefined> {
+    const entry = this.get(id);
+    if (!entry) return undefined;
+
+    this.queue = this.queue.filter(queued => queued !== entry);
+    await this.persist();
+
+    return entry;
+  }
+
+  /**
+   * Drop every request that waited longer than the TTL, emitting 'expired' for each
+   * @returns {Promise<OutboxEntry[]>} Expired entries
+   */
+  async expire(): Promise<OutboxEntry<T>[]> {
+    const now = Date.now();
+    const expired = this.queue.filter(entry => entry.expiresAt <= now);
+    if (expired.length === 0) return [];
+
+    this.queue = this.queue.filter(entry => entry.expiresAt > now);
+    await this.persist();
+
+    for (const entry of expired) {
+      this.emit('expired', entry);
+    }
+    return expired;
+  }
+
+  /**
+   * Remove every request
+   * @returns {Promise<OutboxEntry[]>} The removed entries
+   */
+  async clear(): Promise<OutboxEntry<T>[]> {
+    await this.load();
+
+    const removed = this.queue;
+    this.queue = [];
+    await this.persist();
+
+    return removed;
+  }
+
+  /**
+   * Start looking for expired requests periodically
+   */
+  start(): void {
+    if (this.sweeper) return;
+
+    this.sweeper = setInterval(() => {
+      this.expire().catch(error => this.emit('error', error));
+    }, this.options.sweepInterval);
+    this.sweeper.unref();
+  }
+
+  /**
+   * Stop looking for expired requests
+   */
+  stop(): void {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = null;
+    }
+  }
+
+  /**
+   * Read the outbox file
+   * @private
+   */
+  private async read(): Promise<void> {
+    if (!this.options.file) return;
+
+    let data: any;
+    try {
+      data = await readJson(this.options.file, this.cipher);
+      if (!data) return;
+      if (!Array.isArray(data.entries)) {
+        throw new SessionError(`${this.options.file} has no entries`, 'CORRUPT_SESSION');
+      }
+    } catch (error) {
+      // Unreadable files and a missing or wrong passphrase are reported, not set aside
+      if (!(error instanceof SessionError) || error.code !== 'CORRUPT_SESSION') throw error;
+
+      // Keep the corrupt file for inspection rather than overwriting it
+      const aside = `${this.options.file}.corrupt-${Date.now()}`;
+      console.warn(`⚠️ Outbox file is unreadable, moved to ${aside}:`, error.message);
+      await fs.rename(this.options.file, aside);
+      return;
+    }
+
+    this.queue = data.entries;
+  }
+
+  /**
+   * Write the queue to disk, one write at a time, replacing the file atomically
+   * (encrypted with the passphrase, Buffers such as media keys kept intact)
+   * @private
+   */
+  private persist(): Promise<void> {
+    const file = this.options.file;
+    if (!file) return Promise.resolve();
+
+    const write = () => writeJson(file, { version: OUTBOX_VERSION, entries: this.queue }, this.cipher);
+
+    // Every caller waits for a write that includes its own change
+    this.writing = this.writing.catch(() => undefined).then(write);
+    return this.writing;
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Proto Module
+ *
+ * Protobuf schemas and codec for message payloads.
+ */
+
+export {
+  WAMessageType,
+  WATextContent,
+  WAMediaContent,
+  WAImageContent,
+  WAVideoContent,
+  WAAudioContent,
+  WADocumentContent,
+  WAStickerContent,
+  WALocationContent,
+  WAMessageContentMap,
+  WAMessagePayload,
+  WAContextInfo
+} from './types';
+export { WA_PROTO_SCHEMA } from './schema';
+export { DecodedMessage, encodeMessagePayload, decodeMessagePayload } from './message';
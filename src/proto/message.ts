@@ -0,0 +1,201 @@
+/**
+ * Message Payload Codec
+ *
+ * Converts typed message content to and from `proto.Message` bytes.
+ */
+
+import { Root, Type } from 'protobufjs';
+import { ProtocolError } from '../utils/errors';
+import { WA_PROTO_SCHEMA } from './schema';
+import { WAContextInfo, WAMessagePayload } from './types';
+
+const root = Root.fromJSON(WA_PROTO_SCHEMA);
+const MessageProto: Type = root.lookupType('proto.Message');
+
+/**
+ * Decoded message payload
+ */
+export interface DecodedMessage {
+  payload: WAMessagePayload;
+  contextInfo?: WAContextInfo;
+}
+
+/**
+ * Encode message content as proto.Message bytes
+ * @param {WAMessagePayload} payload Message type and content
+ * @param {WAContextInfo} contextInfo Quoted message and mentions
+ * @returns {Buffer} Encoded message
+ */
+export function encodeMessagePayload(payload: WAMessagePayload, contextInfo?: WAContextInfo): Buffer {
+  const message = MessageProto.fromObject(toProto(payload, contextInfo));
+  return Buffer.from(MessageProto.encode(message).finish());
+}
+
+/**
+ * Decode proto.Message bytes into typed message content
+ * @param {Buffer} data Encoded message
+ * @returns {DecodedMessage} Message type, content and context
+ */
+export function decodeMessagePayload(data: Buffer): DecodedMessage {
+  let message: any;
+  try {
+    message = MessageProto.toObject(MessageProto.decode(data), { longs: Number });
+  } catch (error) {
+    throw new ProtocolError(`Invalid message payload: ${error.message}`, 'INVALID_MESSAGE_PAYLOAD');
+  }
+
+  const decoded = fromProto(message);
+  if (!decoded) {
+    throw new ProtocolError('Message payload has no supported content', 'INVALID_MESSAGE_PAYLOAD');
+  }
+
+  return decoded;
+}
+
+/**
+ * Build the plain proto.Message object for a payload
+ * @param {WAMessagePayload} payload Message type and content
+ * @param {WAContextInfo} contextInfo Quoted message and mentions
+ * @returns {Object} proto.Message object
+ * @private
+ */
+function toProto(payload: WAMessagePayload, contextInfo?: WAContextInfo): Record<string, any> {
+  const context = contextInfo && {
+    stanzaId: contextInfo.stanzaId,
+    participant: contextInfo.participant,
+    quotedMessage: contextInfo.quotedMessage && toProto(contextInfo.quotedMessage),
+    mentionedJid: contextInfo.mentionedJid
+  };
+
+  switch (payload.type) {
+    case 'text':
+      return context
+        ? { extendedTextMessage: { text: payload.content.text, contextInfo: context } }
+        : { conversation: payload.content.text };
+
+    case 'image': {
+      const { size, ...content } = payload.content;
+      return { imageMessage: { ...content, fileLength: size, contextInfo: context } };
+    }
+
+    case 'video': {
+      const { size, ...content } = payload.content;
+      return { videoMessage: { ...content, fileLength: size, contextInfo: context } };
+    }
+
+    case 'audio': {
+      const { size, ...content } = payload.content;
+      return { audioMessage: { ...content, fileLength: size, contextInfo: context } };
+    }
+
+    case 'document': {
+      const { size, filename, ...content } = payload.content;
+      return { documentMessage: { ...content, fileName: filename, fileLength: size, contextInfo: context } };
+    }
+
+    case 'sticker': {
+      const { size, ...content } = payload.content;
+      return { stickerMessage: { ...content, fileLength: size, contextInfo: context } };
+    }
+
+    case 'location':
+      return {
+        locationMessage: {
+          degreesLatitude: payload.content.latitude,
+          degreesLongitude: payload.content.longitude,
+          name: payload.content.name,
+          address: payload.content.address,
+          contextInfo: context
+        }
+      };
+  }
+}
+
+/**
+ * Read the payload out of a decoded proto.Message object
+ * @param {Object} message proto.Message object
+ * @returns {DecodedMessage|undefined} Payload, or undefined if no supported field is set
+ * @private
+ */
+function fromProto(message: Record<string, any>): DecodedMessage | undefined {
+  if (message.conversation !== undefined) {
+    return { payload: { type: 'text', content: { text: message.conversation } } };
+  }
+
+  if (message.extendedTextMessage) {
+    const { text, contextInfo } = message.extendedTextMessage;
+    return { payload: { type: 'text', content: { text: text || '' } }, contextInfo: fromContext(contextInfo) };
+  }
+
+  if (message.imageMessage) {
+    const { contextInfo, fileLength, ...content } = message.imageMessage;
+    return { payload: { type: 'image', content: mediaContent(content, fileLength) }, contextInfo: fromContext(contextInfo) };
+  }
+
+  if (message.videoMessage) {
+    const { contextInfo, fileLength, ...content } = message.videoMessage;
+    return { payload: { type: 'video', content: mediaContent(content, fileLength) }, contextInfo: fromContext(contextInfo) };
+  }
+
+  if (message.audioMessage) {
+    const { contextInfo, fileLength, ...content } = message.audioMessage;
+    return { payload: { type: 'audio', content: mediaContent(content, fileLength) }, contextInfo: fromContext(contextInfo) };
+  }
+
+  if (message.documentMessage) {
+    const { contextInfo, fileLength, fileName, ...content } = message.documentMessage;
+    return {
+      payload: { type: 'document', content: { ...mediaContent(content, fileLength), filename: fileName } },
+      contextInfo: fromContext(contextInfo)
+    };
+  }
+
+  if (message.stickerMessage) {
+    const { contextInfo, fileLength, ...content } = message.stickerMessage;
+    return { payload: { type: 'sticker', content: mediaContent(content, fileLength) }, contextInfo: fromContext(contextInfo) };
+  }
+
+  if (message.locationMessage) {
+    const { degreesLatitude, degreesLongitude, name, address, contextInfo } = message.locationMessage;
+    return {
+      payload: { type: 'location', content: { latitude: degreesLatitude, longitude: degreesLongitude, name, address } },
+      contextInfo: fromContext(contextInfo)
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Normalize decoded media fields
+ * @param {Object} content Decoded media message fields
+ * @param {Number} fileLength File length
+ * @returns {Object} Media content
+ * @private
+ */
+function mediaContent(content: Record<string, any>, fileLength?: number): any {
+  return {
+    ...content,
+    url: content.url || '',
+    size: fileLength,
+    mediaKey: content.mediaKey && Buffer.from(content.mediaKey),
+    fileSha256: content.fileSha256 && Buffer.from(content.fileSha256)
+  };
+}
+
+/**
+ * Read a decoded ContextInfo object
+ * @param {Object} context ContextInfo object
+ * @returns {WAContextInfo|undefined} Context info
+ * @private
+ */
+function fromContext(context?: Record<string, any>): WAContextInfo | undefined {
+  if (!context) return undefined;
+
+  return {
+    stanzaId: context.stanzaId,
+    participant: context.participant,
+    quotedMessage: context.quotedMessage && fromProto(context.quotedMessage)?.payload,
+    mentionedJid: context.mentionedJid
+  };
+}
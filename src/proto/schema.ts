@@ -0,0 +1,118 @@
+/**
+ * WhatsApp Message Schema
+ *
+ * protobufjs JSON descriptor of the message payloads we support. Field
+ * numbers follow the WhatsApp Web `proto.Message` definition so payloads
+ * stay wire compatible; fields we do not model are left out.
+ */
+
+const contextInfo = { type: 'ContextInfo', id: 17 };
+
+export const WA_PROTO_SCHEMA = {
+  nested: {
+    proto: {
+      nested: {
+        Message: {
+          fields: {
+            conversation: { type: 'string', id: 1 },
+            imageMessage: { type: 'ImageMessage', id: 3 },
+            locationMessage: { type: 'LocationMessage', id: 5 },
+            extendedTextMessage: { type: 'ExtendedTextMessage', id: 6 },
+            documentMessage: { type: 'DocumentMessage', id: 7 },
+            audioMessage: { type: 'AudioMessage', id: 8 },
+            videoMessage: { type: 'VideoMessage', id: 9 },
+            stickerMessage: { type: 'StickerMessage', id: 26 }
+          }
+        },
+        ContextInfo: {
+          fields: {
+            stanzaId: { type: 'string', id: 1 },
+            participant: { type: 'string', id: 2 },
+            quotedMessage: { type: 'Message', id: 3 },
+            mentionedJid: { rule: 'repeated', type: 'string', id: 15 }
+          }
+        },
+        ExtendedTextMessage: {
+          fields: {
+            text: { type: 'string', id: 1 },
+            contextInfo
+          }
+        },
+        ImageMessage: {
+          fields: {
+            url: { type: 'string', id: 1 },
+            mimetype: { type: 'string', id: 2 },
+            caption: { type: 'string', id: 3 },
+            fileSha256: { type: 'bytes', id: 4 },
+            fileLength: { type: 'uint64', id: 5 },
+            height: { type: 'uint32', id: 6 },
+            width: { type: 'uint32', id: 7 },
+            mediaKey: { type: 'bytes', id: 8 },
+            contextInfo
+          }
+        },
+        LocationMessage: {
+          fields: {
+            degreesLatitude: { type: 'double', id: 1 },
+            degreesLongitude: { type: 'double', id: 2 },
+            name: { type: 'string', id: 3 },
+            address: { type: 'string', id: 4 },
+            contextInfo
+          }
+        },
+        DocumentMessage: {
+          fields: {
+            url: { type: 'string', id: 1 },
+            mimetype: { type: 'string', id: 2 },
+            title: { type: 'string', id: 3 },
+            fileSha256: { type: 'bytes', id: 4 },
+            fileLength: { type: 'uint64', id: 5 },
+            pageCount: { type: 'uint32', id: 6 },
+            mediaKey: { type: 'bytes', id: 7 },
+            fileName: { type: 'string', id: 8 },
+            contextInfo
+          }
+        },
+        AudioMessage: {
+          fields: {
+            url: { type: 'string', id: 1 },
+            mimetype: { type: 'string', id: 2 },
+            fileSha256: { type: 'bytes', id: 3 },
+            fileLength: { type: 'uint64', id: 4 },
+            seconds: { type: 'uint32', id: 5 },
+            ptt: { type: 'bool', id: 6 },
+            mediaKey: { type: 'bytes', id: 7 },
+            contextInfo
+          }
+        },
+        VideoMessage: {
+          fields: {
+            url: { type: 'string', id: 1 },
+            mimetype: { type: 'string', id: 2 },
+            fileSha256: { type: 'bytes', id: 3 },
+            fileLength: { type: 'uint64', id: 4 },
+            seconds: { type: 'uint32', id: 5 },
+            mediaKey: { type: 'bytes', id: 6 },
+            caption: { type: 'string', id: 7 },
+            gifPlayback: { type: 'bool', id: 8 },
+            height: { type: 'uint32', id: 9 },
+            width: { type: 'uint32', id: 10 },
+            contextInfo
+          }
+        },
+        StickerMessage: {
+          fields: {
+            url: { type: 'string', id: 1 },
+            fileSha256: { type: 'bytes', id: 2 },
+            mediaKey: { type: 'bytes', id: 4 },
+            mimetype: { type: 'string', id: 5 },
+            height: { type: 'uint32', id: 6 },
+            width: { type: 'uint32', id: 7 },
+            fileLength: { type: 'uint64', id: 9 },
+            contextInfo
+          }
+        }
+      }
+    }
+  }
+};
@@ -0,0 +1,86 @@
+/**
+ * Message Content Types
+ *
+ * Content shapes of the message payloads we model, keyed by WAMessage type
+ */
+
+export type WAMessageType = 'text' | 'image' | 'video' | 'audio' | 'document' | 'sticker' | 'location';
+
+export interface WATextContent {
+  text: string;
+}
+
+export interface WAMediaContent {
+  url: string;
+  mimetype?: string;
+  size?: number;
+  mediaKey?: Buffer;
+  fileSha256?: Buffer;
+}
+
+export interface WAImageContent extends WAMediaContent {
+  caption?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface WAVideoContent extends WAMediaContent {
+  caption?: string;
+  seconds?: number;
+  gifPlayback?: boolean;
+  width?: number;
+  height?: number;
+}
+
+export interface WAAudioContent extends WAMediaContent {
+  seconds?: number;
+  ptt?: boolean;
+}
+
+export interface WADocumentContent extends WAMediaContent {
+  filename?: string;
+  title?: string;
+  pageCount?: number;
+}
+
+export interface WAStickerContent extends WAMediaContent {
+  width?: number;
+  height?: number;
+}
+
+export interface WALocationContent {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+}
+
+/**
+ * Content type of each message type
+ */
+export interface WAMessageContentMap {
+  text: WATextContent;
+  image: WAImageContent;
+  video: WAVideoContent;
+  audio: WAAudioContent;
+  document: WADocumentContent;
+  sticker: WAStickerContent;
+  location: WALocationContent;
+}
+
+/**
+ * Message type together with its content, discriminated by type
+ */
+export type WAMessagePayload = {
+  [T in WAMessageType]: { type: T; content: WAMessageContentMap[T] }
+}[WAMessageType];
+
+/**
+ * Quoted message and mentions attached to a message
+ */
+export interface WAContextInfo {
+  stanzaId?: string;
+  participant?: string;
+  quotedMessage?: WAMessagePayload;
+  mentionedJid?: string[];
+}
@@ -0,0 +1,74 @@
+/**
+ * Proxy Agent
+ *
+ * http.Agent that routes every request through a proxy tunnel, so it can be
+ * handed to `ws` for the chat socket and to http(s) requests for media.
+ * TLS is negotiated end-to-end with the target inside the tunnel; the proxy
+ * only ever sees the encrypted stream.
+ */
+
+import * as http from 'http';
+import * as net from 'net';
+import * as tls from 'tls';
+import { ProxyOptions, resolveProxyOptions, openTunnel } from './tunnel';
+
+/**
+ * Agent that tunnels connections through an HTTP CONNECT or SOCKS5 proxy
+ */
+export class ProxyAgent extends http.Agent {
+  readonly proxy: ProxyOptions;
+  // http(s).request checks the agent matches the URL scheme
+  readonly protocol: 'http:' | 'https:';
+  private secure: boolean;
+
+  /**
+   * Create a new proxy agent
+   * @param {String|ProxyOptions} proxy Proxy URL or options
+   * @param {Boolean} secure Whether targets speak TLS (wss:// and https://)
+   */
+  constructor(proxy: string | ProxyOptions, secure: boolean = true) {
+    super();
+    this.proxy = resolveProxyOptions(proxy);
+    this.secure = secure;
+    this.protocol = secure ? 'https:' : 'http:';
+  }
+
+  /**
+   * Open the tunnel (and TLS on top of it) for a request
+   * @private
+   */
+  createConnection(options: any, callback: (error: Error | null, socket?: net.Socket) => void): undefined {
+    const host = options.host || options.hostname || 'localhost';
+    const port = Number(options.port) || (this.secure ? 443 : 80);
+
+    openTunnel(this.proxy, host, port).then((socket) => {
+      if (!this.secure) {
+        callback(null, socket);
+        return;
+      }
+
+      callback(null, tls.connect({
+        socket,
+        servername: options.servername || (net.isIP(host) ? undefined : host),
+        rejectUnauthorized: options.rejectUnauthorized,
+        ca: options.ca,
+        cert: options.cert,
+        key: options.key,
+        ALPNProtocols: options.ALPNProtocols
+      }));
+    }, error => callback(error));
+
+    return undefined;
+  }
+}
+
+/**
+ * Create an agent for requests to a URL through a proxy
+ * @param {String|ProxyOptions} proxy Proxy URL or options
+ * @param {String} url Target URL; its scheme decides whether TLS is used
+ * @returns {ProxyAgent}
+ */
+export function createProxyAgent(proxy: string | ProxyOptions, url: string): ProxyAgent {
+  const { protocol } = new URL(url);
+  return new ProxyAgent(proxy, protocol === 'wss:' || protocol === 'https:');
+}
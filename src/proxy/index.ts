@@ -0,0 +1,8 @@
+/**
+ * Proxy Module
+ *
+ * HTTP CONNECT and SOCKS5 tunnels for the WebSocket and media transports.
+ */
+
+export { ProxyAgent, createProxyAgent } from './agent';
+export { ProxyOptions, ProxyProtocol, parseProxyUrl, resolveProxyOptions, openTunnel } from './tunnel';
@@ -0,0 +1,9 @@
+/**
+ * QR Module
+ *
+ * Rendering of login QR codes to files, data URLs and terminal art, and a
+ * token-protected web page that shows them.
+ */
+
+export { QRRenderer, QRRenderOptions, QRErrorCorrectionLevel, RenderedQR } from './renderer';
+export { LoginPageServer, LoginPageOptions, LoginPageState } from './login-page';
@@ -0,0 +1,313 @@
+/**
+ * Login Page Server
+ *
+ * Small token-protected HTTP page that shows the current login QR code (or
+ * pairing code) of a client and updates itself over Server-Sent Events, so
+ * headless machines can be linked from a browser.
+ */
+
+import { EventEmitter } from 'events';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { QRRenderer, RenderedQR } from './renderer';
+
+export interface LoginPageOptions {
+  port?: number;
+  host?: string;
+  token?: string;
+}
+
+/**
+ * What the page currently shows
+ */
+export interface LoginPageState {
+  status: 'waiting' | 'qr' | 'pairing' | 'authenticated' | 'failed';
+  qr?: string;
+  dataUrl?: string;
+  code?: string;
+  user?: { id: string; name: string };
+  reason?: string;
+  updatedAt: number;
+}
+
+const HEARTBEAT_INTERVAL = 15000;
+
+/**
+ * Serves the login page for a client's QR / pairing code events.
+ *
+ * Routes (all require the token as `?token=` or `Authorization: Bearer`):
+ * - GET /        HTML page
+ * - GET /state   current state as JSON
+ * - GET /events  Server-Sent Events stream of state changes
+ */
+export class LoginPageServer extends EventEmitter {
+  private options: LoginPageOptions;
+  private token: string;
+  private server: Server | null = null;
+  private clients: Set<ServerResponse> = new Set();
+  private heartbeat: NodeJS.Timeout | null = null;
+  private renderer = new QRRenderer({ png: false, svg: false, terminal: false });
+  private state: LoginPageState = { status: 'waiting', updatedAt: Date.now() };
+
+  /**
+   * Create a new login page server
+   * @param {LoginPageOptions} options Listen address and access token (random when omitted)
+   */
+  constructor(options: LoginPageOptions = {}) {
+    super();
+    this.options = {
+      port: 0,
+      host: '127.0.0.1',
+      ...options
+    };
+    this.token = options.token || randomBytes(16).toString('hex');
+  }
+
+  /**
+   * Start listening
+   * @returns {Promise<String>} Page URL including the access token
+   */
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.server = createServer((req, res) => this.handleRequest(req, res));
+      this.server.once('error', reject);
+      this.server.listen(this.options.port, this.options.host, () => {
+        this.heartbeat = setInterval(() => this.broadcast(': ping\n\n'), HEARTBEAT_INTERVAL);
+        this.heartbeat.unref();
+        resolve(this.getUrl());
+      });
+    });
+  }
+
+  /**
+   * Close open event streams and stop listening
+   * @returns {Promise<void>}
+   */
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (this.heartbeat) {
+        clearInterval(this.heartbeat);
+        this.heartbeat = null;
+      }
+
+      for (const client of this.clients) {
+        client.end();
+      }
+      this.clients.clear();
+
+      if (!this.server) {
+        resolve();
+        return;
+      }
+
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  /**
+   * Get the page URL of the running server
+   * @returns {String} URL including the access token
+   */
+  getUrl(): string {
+    if (!this.server) {
+      throw new Error('Login page server is not running');
+    }
+
+    const { port } = this.server.address() as AddressInfo;
+    return `http://${this.options.host}:${port}/?token=${this.token}`;
+  }
+
+  /**
+   * Get what the page currently shows
+   * @returns {LoginPageState} State
+   */
+  getState(): LoginPageState {
+    return { ...this.state };
+  }
+
+  /**
+   * Follow a client's login events ('qr', 'pairing.code', 'pairing.expired', 'auth.success', 'auth.failure')
+   * @param {EventEmitter} client WhatsAppCore or any emitter of the same events
+   * @returns {Function} Stops following the client
+   */
+  attach(client: EventEmitter): () => void {
+    const handlers: Record<string, (...args: any[]) => void> = {
+      'qr': (qr: string, image?: RenderedQR) => this.showQR(qr, image),
+      'pairing.code': (data: { code: string }) => this.update({ status: 'pairing', code: data.code }),
+      'pairing.expired': () => this.update({ status: 'waiting' }),
+      'auth.success': (data: { user: { id: string; name: string } }) => {
+        this.update({ status: 'authenticated', user: { id: data.user.id, name: data.user.name } });
+      },
+      'auth.failure': (data: { reason?: string }) => this.update({ status: 'failed', reason: data.reason })
+    };
+
+    for (const [event, handler] of Object.entries(handlers)) {
+      client.on(event, handler);
+    }
+
+    return () => {
+      for (const [event, handler] of Object.entries(handlers)) {
+        client.off(event, handler);
+      }
+    };
+  }
+
+  /**
+   * Show a QR code, rendering it when no image was supplied
+   * @param {String} qr QR string
+   * @param {RenderedQR} image Rendered QR code
+   * @returns {Promise<void>}
+   */
+  async showQR(qr: string, image?: RenderedQR): Promise<void> {
+    try {
+      const dataUrl = image?.dataUrl || (await this.renderer.render(qr)).dataUrl;
+      this.update({ status: 'qr', qr, dataUrl });
+    } catch (error) {
+      this.emit('error', error);
+    }
+  }
+
+  /**
+   * Replace the shown state and push it to open pages
+   * @param {Object} state New state
+   * @private
+   */
+  private update(state: Omit<LoginPageState, 'updatedAt'>): void {
+    this.state = { ...state, updatedAt: Date.now() };
+    this.broadcast(`event: state\ndata: ${JSON.stringify(this.state)}\n\n`);
+    this.emit('update', this.getState());
+  }
+
+  /**
+   * Write a chunk to every open event stream
+   * @param {String} chunk SSE chunk
+   * @private
+   */
+  private broadcast(chunk: string): void {
+    for (const client of this.clients) {
+      client.write(chunk);
+    }
+  }
+
+  /**
+   * Route a request
+   * @private
+   */
+  private handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (req.method !== 'GET') {
+      res.writeHead(405, { Allow: 'GET' }).end();
+      return;
+    }
+
+    if (!this.isAuthorized(req, url)) {
+      res.writeHead(401, { 'Content-Type': 'text/plain' }).end('Unauthorized');
+      return;
+    }
+
+    switch (url.pathname) {
+      case '/':
+        res.writeHead(200, {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Cache-Control': 'no-store',
+          'Referrer-Policy': 'no-referrer'
+        }).end(LOGIN_PAGE_HTML);
+        break;
+
+      case '/state':
+        res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' })
+          .end(JSON.stringify(this.state));
+        break;
+
+      case '/events':
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-store',
+          Connection: 'keep-alive'
+        });
+        res.write(`event: state\ndata: ${JSON.stringify(this.state)}\n\n`);
+        this.clients.add(res);
+        req.on('close', () => this.clients.delete(res));
+        break;
+
+      default:
+        res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found');
+    }
+  }
+
+  /**
+   * Check the access token (query string or bearer header) in constant time
+   * @private
+   */
+  private isAuthorized(req: IncomingMessage, url: URL): boolean {
+    const header = req.headers.authorization;
+    const token = url.searchParams.get('token') || (header?.startsWith('Bearer ') ? header.slice(7) : '');
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+
+    return timingSafeEqual(digest(token), digest(this.token));
+  }
+}
+
+const LOGIN_PAGE_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>WhatsApp login</title>
+<style>
+  body { font-family: system-ui, sans-serif; display: flex; justify-content: center; margin-top: 10vh; color: #111b21; }
+  main { text-align: center; max-width: 360px; }
+  img { width: 280px; height: 280px; image-rendering: pixelated; }
+  .code { font: 600 2.4em monospace; letter-spacing: 0.15em; }
+  .muted { color: #667781; }
+</style>
+</head>
+<body>
+<main>
+  <h1 id="title">Waiting for login&hellip;</h1>
+  <img id="qr" alt="Login QR code" hidden>
+  <p id="code" class="code" hidden></p>
+  <p id="hint" class="muted"></p>
+</main>
+<script>
+  const token = new URLSearchParams(location.search).get('token') || '';
+  const $ = (id) => document.getElementById(id);
+
+  function render(state) {
+    $('qr').hidden = state.status !== 'qr';
+    $('code').hidden = state.status !== 'pairing';
+
+    switch (state.status) {
+      case 'qr':
+        $('title').textContent = 'Scan to log in';
+        $('qr').src = state.dataUrl;
+        $('hint').textContent = 'WhatsApp > Settings > Linked Devices > Link a device';
+        break;
+      case 'pairing':
+        $('title').textContent = 'Enter this code on your phone';
+        $('code').textContent = state.code.slice(0, 4) + '-' + state.code.slice(4);
+        $('hint').textContent = 'WhatsApp > Settings > Linked Devices > Link with phone number';
+        break;
+      case 'authenticated':
+        $('title').textContent = 'Logged in as ' + state.user.name;
+        $('hint').textContent = state.user.id;
+        break;
+      case 'failed':
+        $('title').textContent = 'Login failed';
+        $('hint').textContent = state.reason || '';
+        break;
+      default:
+        $('title').textContent = 'Waiting for login\\u2026';
+        $('hint').textContent = '';
+    }
+  }
+
+  const events = new EventSource('/events?token=' + encodeURIComponent(token));
+  events.addEventListener('state', (event) => render(JSON.parse(event.data)));
+</script>
+</body>
+</html>
+`;
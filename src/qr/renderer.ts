@@ -0,0 +1,110 @@
+/**
+ * QR Code Renderer
+ *
+ * Renders login QR strings as PNG and SVG files, a PNG data URL (for
+ * embedding in dashboards) and terminal art, using the `qrcode` package.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as QRCode from 'qrcode';
+
+/**
+ * QR error-correction level (recovers ~7%, 15%, 25% or 30% of the code)
+ */
+export type QRErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+/**
+ * Which outputs to render and how
+ */
+export interface QRRenderOptions {
+  outputDir?: string;
+  png?: boolean;
+  svg?: boolean;
+  terminal?: boolean;
+  size?: number;
+  margin?: number;
+  errorCorrectionLevel?: QRErrorCorrectionLevel;
+}
+
+/**
+ * Rendered QR code outputs
+ */
+export interface RenderedQR {
+  qr: string;
+  dataUrl: string;
+  svg?: string;
+  terminal?: string;
+  pngPath?: string;
+  svgPath?: string;
+}
+
+/**
+ * Renders QR strings to images, files and terminal art
+ */
+export class QRRenderer {
+  private options: QRRenderOptions;
+
+  /**
+   * Create a new QR renderer
+   * @param {QRRenderOptions} options Outputs, size and error-correction level
+   */
+  constructor(options: QRRenderOptions = {}) {
+    this.options = {
+      png: true,
+      svg: true,
+      terminal: true,
+      size: 256,
+      margin: 2,
+      errorCorrectionLevel: 'M',
+      ...options
+    };
+  }
+
+  /**
+   * Render a QR string. Files are only written when an output directory is set.
+   * @param {String} qr QR string
+   * @returns {Promise<RenderedQR>} Rendered outputs
+   */
+  async render(qr: string): Promise<RenderedQR> {
+    const imageOptions = {
+      errorCorrectionLevel: this.options.errorCorrectionLevel,
+      width: this.options.size,
+      margin: this.options.margin
+    };
+
+    const png: Buffer = await QRCode.toBuffer(qr, { ...imageOptions, type: 'png' });
+    const rendered: RenderedQR = {
+      qr,
+      dataUrl: `data:image/png;base64,${png.toString('base64')}`
+    };
+
+    if (this.options.svg) {
+      rendered.svg = await QRCode.toString(qr, { ...imageOptions, type: 'svg' });
+    }
+
+    if (this.options.terminal) {
+      rendered.terminal = await QRCode.toString(qr, {
+        errorCorrectionLevel: this.options.errorCorrectionLevel,
+        type: 'terminal',
+        small: true
+      });
+    }
+
+    if (this.options.outputDir) {
+      await fs.mkdir(this.options.outputDir, { recursive: true });
+
+      if (this.options.png) {
+        rendered.pngPath = path.join(this.options.outputDir, 'qr.png');
+        await fs.writeFile(rendered.pngPath, png);
+      }
+
+      if (rendered.svg) {
+        rendered.svgPath = path.join(this.options.outputDir, 'qr.svg');
+        await fs.writeFile(rendered.svgPath, rendered.svg);
+      }
+    }
+
+    return rendered;
+  }
+}
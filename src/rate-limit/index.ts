@@ -0,0 +1,8 @@
+/**
+ * Rate Limit Module
+ *
+ * Token bucket throttling of outbound messages and actions.
+ */
+
+export { RateLimiter, RateLimitOptions, RateLimitRequest, ThrottleEvent } from './limiter';
+export { TokenBucket } from './token-bucket';
@@ -0,0 +1,304 @@
+/**
+ * Rate Limiter
+ *
+ * Throttles outbound traffic so an account does not look like a spam bot:
+ * a global budget for every outbound action, a budget per chat and one for
+ * first messages to chats never messaged before (token buckets), plus a
+ * randomized minimum gap between sends. Callers wait their turn in order,
+ * except that a chat out of its own budget lets other chats go first;
+ * nothing is rejected for going over a limit.
+ */
+
+import { EventEmitter } from 'events';
+import { TokenBucket } from './token-bucket';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Chats remembered as already messaged; a forgotten one counts as new again
+const MAX_KNOWN_CHATS = 10000;
+
+export interface RateLimitOptions {
+  // Outbound actions (messages included) per minute across all chats; 0 disables the limit
+  messagesPerMinute?: number;
+  // Messages per minute to a single chat; 0 disables the limit
+  perChatPerMinute?: number;
+  // First messages to chats never messaged before, per hour; 0 disables the limit
+  newChatsPerHour?: number;
+  // Minimum gap (ms) between two sends
+  minGap?: number;
+  // Random extra gap (ms) added on top of minGap, up to this much
+  gapJitter?: number;
+}
+
+/**
+ * What is about to be sent
+ */
+export interface RateLimitRequest {
+  // Messages count against the per-chat and new chat budgets, other actions only against the global one
+  kind: 'message' | 'action';
+  chat?: string;
+  // The caller knows of no earlier conversation with the chat
+  newChat?: boolean;
+}
+
+/**
+ * Payload of 'throttled'
+ */
+export interface ThrottleEvent {
+  reason: 'global' | 'chat' | 'new_chat';
+  chat?: string;
+  delay: number;
+  queued: number;
+}
+
+/**
+ * Request waiting for its turn
+ * @private
+ */
+interface Waiter {
+  request: RateLimitRequest;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  throttled: boolean;
+}
+
+/**
+ * Token bucket rate limiter with a randomized gap between sends.
+ *
+ * Events:
+ * - 'throttled' (ThrottleEvent) when a request has to wait for a budget to refill
+ */
+export class RateLimiter extends EventEmitter {
+  private options: Required<RateLimitOptions>;
+  private global: TokenBucket | null;
+  private newChats: TokenBucket | null;
+  private chats: Map<string, TokenBucket> = new Map();
+  private knownChats: Set<string> = new Set();
+  private queue: Waiter[] = [];
+  private nextSendAt = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private timerAt = 0;
+
+  /**
+   * Create a new rate limiter
+   * @param {RateLimitOptions} options Budgets and gap between sends
+   */
+  constructor(options: RateLimitOptions = {}) {
+    super();
+    this.options = {
+      messagesPerMinute: 30,
+      perChatPerMinute: 10,
+      newChatsPerHour: 20,
+      minGap: 1000,
+      gapJitter: 1000,
+      ...options
+    };
+
+    this.global = this.options.messagesPerMinute > 0 ? new TokenBucket(this.options.messagesPerMinute, MINUTE) : null;
+    this.newChats = this.options.newChatsPerHour > 0 ? new TokenBucket(this.options.newChatsPerHour, HOUR) : null;
+  }
+
+  /**
+   * Number of requests waiting
+   * @returns {Number}
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Wait until a request may be sent. Requests are served in order, but one
+   * held back by the budget of its chat does not hold back other chats.
+   * @param {RateLimitRequest} request What is about to be sent
+   * @returns {Promise<void>} Resolves when it is the request's turn
+   */
+  acquire(request: RateLimitRequest): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request, resolve, reject, throttled: false });
+      this.schedule(0);
+    });
+  }
+
+  /**
+   * Reject every waiting request (e.g. when the connection is closed)
+   * @param {Error} error Rejection reason
+   */
+  cancel(error: Error): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const waiting = this.queue;
+    this.queue = [];
+    for (const waiter of waiting) {
+      waiter.reject(error);
+    }
+  }
+
+  /**
+   * Let waiting requests through as far as the budgets allow
+   * @private
+   */
+  private drain(): void {
+    this.timer = null;
+
+    // Chats out of their own budget, whose later requests keep waiting behind the first
+    const held = new Set<string>();
+    let wait = Infinity;
+
+    for (let i = 0; i < this.queue.length;) {
+      const waiter = this.queue[i];
+      const { chat } = waiter.request;
+
+      if (chat !== undefined && held.has(chat)) {
+        i++;
+        continue;
+      }
+
+      const { delay, own } = this.delay(waiter);
+      if (delay === 0) {
+        this.queue.splice(i, 1);
+        this.take(waiter.request);
+        waiter.resolve();
+        continue;
+      }
+
+      wait = Math.min(wait, delay);
+
+      // The global budget and the gap hold back everyone
+      if (!own) break;
+
+      held.add(chat!);
+      i++;
+    }
+
+    if (wait !== Infinity) {
+      this.schedule(wait);
+    }
+    this.pruneChats();
+  }
+
+  /**
+   * How long a request still has to wait, and whether the budgets of its own
+   * chat are why. Reports budget waits once per request.
+   * @private
+   */
+  private delay(waiter: Waiter): { delay: number; own: boolean } {
+    const { request } = waiter;
+    const budgets: Array<[ThrottleEvent['reason'], TokenBucket | null]> = [['global', this.global]];
+
+    if (request.kind === 'message' && request.chat) {
+      budgets.push(['chat', this.chatBucket(request.chat)]);
+      if (this.isNewChat(request)) {
+        budgets.push(['new_chat', this.newChats]);
+      }
+    }
+
+    let delay = Math.max(0, this.nextSendAt - Date.now());
+    let reason: ThrottleEvent['reason'] | null = null;
+    let own = false;
+
+    for (const [name, bucket] of budgets) {
+      const wait = bucket ? bucket.delay() : 0;
+      if (wait > 0 && name !== 'global') {
+        own = true;
+      }
+      if (wait > delay) {
+        delay = wait;
+        reason = name;
+      }
+    }
+
+    // The gap between sends is routine; only running out of a budget is throttling
+    if (reason && !waiter.throttled) {
+      waiter.throttled = true;
+      this.emit('throttled', { reason, chat: request.chat, delay, queued: this.queue.length });
+    }
+
+    return { delay, own };
+  }
+
+  /**
+   * Spend the tokens of a request and start the gap before the next one
+   * @private
+   */
+  private take(request: RateLimitRequest): void {
+    this.global?.take();
+
+    if (request.kind === 'message' && request.chat) {
+      this.chatBucket(request.chat)?.take();
+      if (this.isNewChat(request)) {
+        this.newChats?.take();
+      }
+      this.rememberChat(request.chat);
+    }
+
+    this.nextSendAt = Date.now() + this.options.minGap + Math.floor(Math.random() * this.options.gapJitter);
+  }
+
+  /**
+   * A chat is new until the first message to it went through
+   * @private
+   */
+  private isNewChat(request: RateLimitRequest): boolean {
+    return request.newChat === true && !this.knownChats.has(request.chat!);
+  }
+
+  /**
+   * Remember a chat as messaged, forgetting the least recently messaged beyond MAX_KNOWN_CHATS
+   * @private
+   */
+  private rememberChat(chat: string): void {
+    this.knownChats.delete(chat);
+    this.knownChats.add(chat);
+
+    if (this.knownChats.size > MAX_KNOWN_CHATS) {
+      this.knownChats.delete(this.knownChats.values().next().value!);
+    }
+  }
+
+  /**
+   * Budget of a chat, created on first use
+   * @private
+   */
+  private chatBucket(chat: string): TokenBucket | null {
+    if (this.options.perChatPerMinute <= 0) return null;
+
+    let bucket = this.chats.get(chat);
+    if (!bucket) {
+      bucket = new TokenBucket(this.options.perChatPerMinute, MINUTE);
+      this.chats.set(chat, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Forget chat budgets that refilled completely (a new full bucket is equivalent)
+   * @private
+   */
+  private pruneChats(): void {
+    for (const [chat, bucket] of this.chats) {
+      if (bucket.isFull()) {
+        this.chats.delete(chat);
+      }
+    }
+  }
+
+  /**
+   * Run drain() after a delay, unless it is already scheduled to run sooner
+   * (a new request for another chat may go before those waiting for a budget)
+   * @private
+   */
+  private schedule(delay: number): void {
+    const at = Date.now() + delay;
+    if (this.timer) {
+      if (this.timerAt <= at) return;
+      clearTimeout(this.timer);
+    }
+
+    this.timerAt = at;
+    this.timer = setTimeout(() => this.drain(), delay);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Token Bucket
+ *
+ * Holds up to `capacity` tokens and refills them evenly over `interval` ms,
+ * so at most `capacity` takes happen per interval, in bursts or spread out.
+ */
+
+export class TokenBucket {
+  private capacity: number;
+  private interval: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  /**
+   * Create a full bucket
+   * @param {Number} capacity Tokens per interval
+   * @param {Number} interval Refill period (ms)
+   */
+  constructor(capacity: number, interval: number) {
+    this.capacity = capacity;
+    this.interval = interval;
+    this.tokens = capacity;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Time until a token is available
+   * @returns {Number} Delay in ms (0 when a token can be taken now)
+   */
+  delay(): number {
+    this.refill();
+    if (this.tokens >= 1) return 0;
+
+    return Math.ceil((1 - this.tokens) * this.interval / this.capacity);
+  }
+
+  /**
+   * Take a token if one is available
+   * @returns {Boolean} Whether a token was taken
+   */
+  take(): boolean {
+    this.refill();
+    if (this.tokens < 1) return false;
+
+    this.tokens--;
+    return true;
+  }
+
+  /**
+   * Whether the bucket is back to its full capacity
+   * @returns {Boolean}
+   */
+  isFull(): boolean {
+    this.refill();
+    return this.tokens >= this.capacity;
+  }
+
+  /**
+   * Add the tokens earned since the last update
+   * @private
+   */
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.capacity / this.interval);
+    this.updatedAt = now;
+  }
+}
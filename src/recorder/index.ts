@@ -0,0 +1,8 @@
+/**
+ * Recorder Module
+ *
+ * Wire-level frame recording (JSONL) and offline replay.
+ */
+
+export { FrameRecorder, FrameRecorderOptions, RecordedFrame, FrameDirection } from './recorder';
+export { FrameReplayer, ReplayTarget, ReplayOptions, ReplayResult, readRecording } from './replayer';
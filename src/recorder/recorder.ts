@@ -0,0 +1,122 @@
+/**
+ * Frame Recorder
+ *
+ * Appends every frame a client sends or receives to a JSONL file: one
+ * JSON object per line with the direction, timestamp, message tag, decoded
+ * node and (unless redacted) the plaintext node bytes.
+ */
+
+import { createWriteStream, WriteStream } from 'fs';
+import { BinaryNode } from '../binary';
+import { bufferReplacer } from '../utils/helpers';
+
+export type FrameDirection = 'in' | 'out';
+
+/**
+ * One recorded frame
+ */
+export interface RecordedFrame {
+  direction: FrameDirection;
+  timestamp: number;
+  tag: string;
+  node?: BinaryNode;
+  payload?: Buffer;
+  error?: string;
+}
+
+export interface FrameRecorderOptions {
+  path: string;
+  redact?: boolean;
+}
+
+/**
+ * Node attributes holding login secrets, masked when redaction is on
+ */
+const REDACTED_ATTRS = ['secret', 'serverToken', 'clientToken'];
+
+/**
+ * Writes recorded frames to a JSONL file
+ */
+export class FrameRecorder {
+  private options: FrameRecorderOptions;
+  private stream: WriteStream | null = null;
+
+  /**
+   * Create a new recorder
+   * @param {FrameRecorderOptions} options File path and redaction (on by default)
+   */
+  constructor(options: FrameRecorderOptions) {
+    this.options = { redact: true, ...options };
+  }
+
+  /**
+   * Append a frame to the recording
+   * @param {RecordedFrame} frame Frame to record
+   */
+  record(frame: RecordedFrame): void {
+    if (!this.stream) {
+      this.stream = createWriteStream(this.options.path, { flags: 'a' });
+      this.stream.on('error', (error) => console.error('❌ Frame recorder error:', error));
+    }
+
+    this.stream.write(JSON.stringify(this.options.redact ? this.redact(frame) : frame, bufferReplacer) + '\n');
+  }
+
+  /**
+   * Flush and close the file (a later record() reopens it)
+   * @returns {Promise<void>}
+   */
+  close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+
+    return new Promise((resolve) => {
+      if (!stream) {
+        resolve();
+        return;
+      }
+      stream.end(() => resolve());
+    });
+  }
+
+  /**
+   * Mask login secrets; the raw payload of such frames is dropped as it contains them too
+   * @param {RecordedFrame} frame Frame to redact
+   * @returns {RecordedFrame} Redacted frame
+   * @private
+   */
+  private redact(frame: RecordedFrame): RecordedFrame {
+    if (!frame.node || !this.hasSecrets(frame.node)) {
+      return frame;
+    }
+
+    const { payload, ...rest } = frame;
+    return { ...rest, node: this.redactNode(frame.node) };
+  }
+
+  /**
+   * Whether a node or any of its children carries a secret attribute
+   * @private
+   */
+  private hasSecrets(node: BinaryNode): boolean {
+    return REDACTED_ATTRS.some(attr => node.attrs[attr] !== undefined) ||
+      (Array.isArray(node.content) && node.content.some(child => this.hasSecrets(child)));
+  }
+
+  /**
+   * Copy a node with its secret attributes masked
+   * @private
+   */
+  private redactNode(node: BinaryNode): BinaryNode {
+    const attrs = { ...node.attrs };
+    for (const attr of REDACTED_ATTRS) {
+      if (attrs[attr] !== undefined) attrs[attr] = '[redacted]';
+    }
+
+    return {
+      tag: node.tag,
+      attrs,
+      content: Array.isArray(node.content) ? node.content.map(child => this.redactNode(child)) : node.content
+    };
+  }
+}
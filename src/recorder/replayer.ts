@@ -0,0 +1,160 @@
+/**
+ * Frame Replayer
+ *
+ * Feeds a recording made by FrameRecorder back into a client without a
+ * network. Inbound frames are decoded again (so decoder bugs reproduce) and
+ * injected in order; the message tags of recorded responses are mapped to
+ * the tags of the queries the client sends during the replay.
+ */
+
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { BinaryNode, decodeBinaryNode } from '../binary';
+import { bufferReviver } from '../utils/helpers';
+import { RecordedFrame } from './recorder';
+
+/**
+ * Client driven by the replayer (implemented by WhatsAppCore)
+ */
+export interface ReplayTarget {
+  injectNode(node: BinaryNode, tag?: string): void;
+  addFrameObserver(observer: (frame: RecordedFrame) => void): () => void;
+}
+
+export interface ReplayOptions {
+  realtime?: boolean;
+  speed?: number;
+}
+
+export interface ReplayResult {
+  inbound: number;
+  outbound: RecordedFrame[];
+  errors: Error[];
+}
+
+/**
+ * Read a JSONL recording
+ * @param {String} path Recording file
+ * @returns {Promise<RecordedFrame[]>} Recorded frames
+ */
+export async function readRecording(path: string): Promise<RecordedFrame[]> {
+  const data = await fs.readFile(path, 'utf8');
+  return data
+    .split('\n')
+    .filter(line => line.trim().length > 0)
+    .map(line => JSON.parse(line, bufferReviver));
+}
+
+/**
+ * Replays recorded frames into a client.
+ *
+ * Events:
+ * - 'frame' (RecordedFrame) before each inbound frame is injected
+ * - 'error' (Error) for frames that fail to decode or to be handled, if listened to
+ *   (they are collected in ReplayResult.errors either way)
+ */
+export class FrameReplayer extends EventEmitter {
+  private target: ReplayTarget;
+
+  /**
+   * Create a new replayer
+   * @param {ReplayTarget} target Client to replay into
+   */
+  constructor(target: ReplayTarget) {
+    super();
+    this.target = target;
+  }
+
+  /**
+   * Replay a recording
+   * @param {String|RecordedFrame[]} recording Recording file or frames
+   * @param {ReplayOptions} options Keep the recorded timing (realtime) and its speed factor
+   * @returns {Promise<ReplayResult>} Replay summary, including what the client sent
+   */
+  async replay(recording: string | RecordedFrame[], options: ReplayOptions = {}): Promise<ReplayResult> {
+    const frames = typeof recording === 'string' ? await readRecording(recording) : recording;
+    const recordedOut: RecordedFrame[] = [];
+    const liveOut: RecordedFrame[] = [];
+    const result: ReplayResult = { inbound: 0, outbound: liveOut, errors: [] };
+
+    const unsubscribe = this.target.addFrameObserver(frame => {
+      if (frame.direction === 'out') liveOut.push(frame);
+    });
+
+    try {
+      let previous = frames.length > 0 ? frames[0].timestamp : 0;
+
+      for (const frame of frames) {
+        await this.wait(options, frame.timestamp - previous);
+        previous = frame.timestamp;
+
+        if (frame.direction === 'out') {
+          recordedOut.push(frame);
+          continue;
+        }
+
+        this.replayInbound(frame, this.mapTag(frame.tag, recordedOut, liveOut), result);
+      }
+
+      // Let handlers of the last frame settle
+      await this.wait(options, 0);
+    } finally {
+      unsubscribe();
+    }
+
+    return result;
+  }
+
+  /**
+   * Decode and inject one inbound frame
+   * @private
+   */
+  private replayInbound(frame: RecordedFrame, tag: string, result: ReplayResult): void {
+    let node = frame.node;
+
+    try {
+      if (frame.payload) {
+        node = decodeBinaryNode(frame.payload);
+      }
+      if (!node) return;
+
+      this.emit('frame', frame);
+      result.inbound++;
+      this.target.injectNode(node, tag);
+    } catch (error) {
+      result.errors.push(error);
+
+      // The error is in the result either way; an unhandled 'error' event would abort the replay
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', error);
+      }
+    }
+  }
+
+  /**
+   * Map the tag of a recorded response to the tag of the matching live query.
+   * The n-th recorded query with a given node tag matches the n-th live one.
+   * @private
+   */
+  private mapTag(tag: string, recordedOut: RecordedFrame[], liveOut: RecordedFrame[]): string {
+    const index = recordedOut.findIndex(frame => frame.tag === tag);
+    if (!tag || index < 0) {
+      return tag;
+    }
+
+    const nodeTag = recordedOut[index].node?.tag;
+    const occurrence = recordedOut.slice(0, index).filter(frame => frame.node?.tag === nodeTag).length;
+    const live = liveOut.filter(frame => frame.node?.tag === nodeTag)[occurrence];
+
+    return live ? live.tag : tag;
+  }
+
+  /**
+   * Yield to pending handlers, sleeping for the recorded gap in realtime mode
+   * @private
+   */
+  private wait(options: ReplayOptions, gap: number): Promise<void> {
+    const delay = options.realtime ? Math.max(0, gap) / (options.speed || 1) : 0;
+    return new Promise(resolve => setTimeout(resolve, delay));
+  }
+}
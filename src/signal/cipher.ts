@@ -0,0 +1,252 @@
+/**
+ * Signal Session Cipher
+ *
+ * SessionBuilder starts sessions from a remote pre-key bundle and
+ * SessionCipher encrypts/decrypts messages for one remote address.
+ * Operations on the same address are serialized so concurrent sends
+ * and receives never race on the stored session record.
+ */
+
+import { generateCurveKeyPair } from '../crypto/curve';
+import { SignalError } from '../utils/errors';
+import { PreKeyBundle, verifySignedPreKey } from './keys';
+import {
+  SignalMessageType,
+  parsePreKeySignalMessage,
+  serializePreKeySignalMessage
+} from './messages';
+import {
+  SessionRecord,
+  cloneSessionRecord,
+  initializeInitiatorSession,
+  initializeResponderSession,
+  ratchetDecrypt,
+  ratchetEncrypt
+} from './session';
+import { SignalKeyStore } from './store';
+
+/**
+ * Encrypted message ready to be sent
+ */
+export interface EncryptedSignalMessage {
+  type: SignalMessageType;
+  body: Buffer;
+}
+
+const addressLocks: Map<string, Promise<any>> = new Map();
+
+/**
+ * Run a task after every earlier task for the same address has settled
+ * @param {String} address Remote address (or sender key name)
+ * @param {Function} task Task to run
+ * @returns {Promise} Task result
+ */
+export function withAddressLock<T>(address: string, task: () => Promise<T>): Promise<T> {
+  const previous = addressLocks.get(address) || Promise.resolve();
+  const result = previous.catch(() => undefined).then(task);
+  const tail = result.catch(() => undefined);
+
+  addressLocks.set(address, tail);
+  tail.then(() => {
+    if (addressLocks.get(address) === tail) {
+      addressLocks.delete(address);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Builds outgoing sessions from pre-key bundles
+ */
+export class SessionBuilder {
+  private store: SignalKeyStore;
+  private address: string;
+
+  /**
+   * Create a new session builder
+   * @param {SignalKeyStore} store Key store
+   * @param {String} address Remote address (usually the JID)
+   */
+  constructor(store: SignalKeyStore, address: string) {
+    this.store = store;
+    this.address = address;
+  }
+
+  /**
+   * Start a session with the owner of a pre-key bundle
+   * @param {PreKeyBundle} bundle Remote pre-key bundle
+   * @returns {Promise<void>}
+   */
+  processPreKeyBundle(bundle: PreKeyBundle): Promise<void> {
+    return withAddressLock(this.address, async () => {
+      if (!verifySignedPreKey(bundle.identityKey, bundle.signedPreKey.publicKey, bundle.signedPreKey.signature)) {
+        throw new SignalError('Invalid signed pre-key signature', 'INVALID_SIGNATURE');
+      }
+
+      if (!await this.store.isTrustedIdentity(this.address, bundle.identityKey)) {
+        throw new SignalError(`Untrusted identity key for ${this.address}`, 'UNTRUSTED_IDENTITY');
+      }
+
+      const session = initializeInitiatorSession({
+        identityKeyPair: await this.store.getIdentityKeyPair(),
+        baseKeyPair: generateCurveKeyPair(),
+        remoteRegistrationId: bundle.registrationId,
+        remoteIdentityKey: bundle.identityKey,
+        remoteSignedPreKey: bundle.signedPreKey.publicKey,
+        remoteSignedPreKeyId: bundle.signedPreKey.keyId,
+        remotePreKey: bundle.preKey?.publicKey,
+        remotePreKeyId: bundle.preKey?.keyId
+      });
+
+      await this.store.saveIdentity(this.address, bundle.identityKey);
+      await this.store.storeSession(this.address, session);
+    });
+  }
+}
+
+/**
+ * Encrypts and decrypts messages for one remote address
+ */
+export class SessionCipher {
+  private store: SignalKeyStore;
+  private address: string;
+
+  /**
+   * Create a new session cipher
+   * @param {SignalKeyStore} store Key store
+   * @param {String} address Remote address (usually the JID)
+   */
+  constructor(store: SignalKeyStore, address: string) {
+    this.store = store;
+    this.address = address;
+  }
+
+  /**
+   * Whether a session with the address exists
+   * @returns {Promise<Boolean>}
+   */
+  async hasSession(): Promise<boolean> {
+    return !!await this.store.loadSession(this.address);
+  }
+
+  /**
+   * Encrypt a plaintext
+   * @param {Buffer} plaintext Plaintext
+   * @returns {Promise<EncryptedSignalMessage>} Ciphertext and its type
+   */
+  encrypt(plaintext: Buffer): Promise<EncryptedSignalMessage> {
+    return withAddressLock(this.address, async () => {
+      const stored = await this.store.loadSession(this.address);
+      if (!stored) {
+        throw new SignalError(`No session for ${this.address}`, 'NO_SESSION');
+      }
+
+      const session = cloneSessionRecord(stored);
+      const message = ratchetEncrypt(session, plaintext);
+      await this.store.storeSession(this.address, session);
+
+      if (!session.pendingPreKey) {
+        return { type: 'msg', body: message };
+      }
+
+      return {
+        type: 'pkmsg',
+        body: serializePreKeySignalMessage({
+          registrationId: await this.store.getLocalRegistrationId(),
+          preKeyId: session.pendingPreKey.preKeyId,
+          signedPreKeyId: session.pendingPreKey.signedPreKeyId,
+          baseKey: session.pendingPreKey.baseKey,
+          identityKey: session.localIdentityKey,
+          message
+        })
+      };
+    });
+  }
+
+  /**
+   * Decrypt a ciphertext
+   * @param {SignalMessageType} type Message type
+   * @param {Buffer} body Ciphertext
+   * @returns {Promise<Buffer>} Plaintext
+   */
+  decrypt(type: SignalMessageType, body: Buffer): Promise<Buffer> {
+    return withAddressLock(this.address, async () => {
+      if (type === 'pkmsg') {
+        return this.decryptPreKeyMessage(body);
+      }
+
+      if (type !== 'msg') {
+        throw new SignalError(`Unknown message type: ${type}`, 'INVALID_MESSAGE');
+      }
+
+      const stored = await this.store.loadSession(this.address);
+      if (!stored) {
+        throw new SignalError(`No session for ${this.address}`, 'NO_SESSION');
+      }
+
+      const session = cloneSessionRecord(stored);
+      const plaintext = ratchetDecrypt(session, body);
+
+      // The peer answered, so it no longer needs our pre-key details
+      delete session.pendingPreKey;
+      await this.store.storeSession(this.address, session);
+
+      return plaintext;
+    });
+  }
+
+  /**
+   * Decrypt a PreKeySignalMessage, creating the session when it is new
+   * @param {Buffer} body Serialized PreKeySignalMessage
+   * @returns {Promise<Buffer>} Plaintext
+   * @private
+   */
+  private async decryptPreKeyMessage(body: Buffer): Promise<Buffer> {
+    const message = parsePreKeySignalMessage(body);
+
+    if (!await this.store.isTrustedIdentity(this.address, message.identityKey)) {
+      throw new SignalError(`Untrusted identity key for ${this.address}`, 'UNTRUSTED_IDENTITY');
+    }
+
+    const stored = await this.store.loadSession(this.address);
+    let session: SessionRecord;
+
+    if (stored && stored.baseKey.equals(message.baseKey)) {
+      // Retransmitted pre-key message for a session we already built
+      session = cloneSessionRecord(stored);
+    } else {
+      const signedPreKey = await this.store.loadSignedPreKey(message.signedPreKeyId);
+      if (!signedPreKey) {
+        throw new SignalError(`Unknown signed pre-key ${message.signedPreKeyId}`, 'INVALID_PRE_KEY');
+      }
+
+      let preKey;
+      if (message.preKeyId !== undefined) {
+        preKey = await this.store.loadPreKey(message.preKeyId);
+        if (!preKey) {
+          throw new SignalError(`Unknown pre-key ${message.preKeyId}`, 'INVALID_PRE_KEY');
+        }
+      }
+
+      session = initializeResponderSession({
+        identityKeyPair: await this.store.getIdentityKeyPair(),
+        signedPreKeyPair: signedPreKey.keyPair,
+        preKeyPair: preKey?.keyPair,
+        remoteRegistrationId: message.registrationId,
+        remoteIdentityKey: message.identityKey,
+        remoteBaseKey: message.baseKey
+      });
+    }
+
+    const plaintext = ratchetDecrypt(session, message.message);
+
+    await this.store.saveIdentity(this.address, message.identityKey);
+    await this.store.storeSession(this.address, session);
+    if (message.preKeyId !== undefined) {
+      await this.store.removePreKey(message.preKeyId);
+    }
+
+    return plaintext;
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * Signal Group Sessions
+ *
+ * Sender keys for group chats: every member encrypts with its own chain key
+ * and signs with its own signing key, and hands both to the other members
+ * in a SenderKeyDistributionMessage sent over their 1:1 sessions. A group
+ * message is then encrypted once instead of once per participant.
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes, randomInt } from 'crypto';
+import { ed25519 } from '@noble/curves/ed25519';
+import { SignalError } from '../utils/errors';
+import { bufferReplacer, bufferReviver } from '../utils/helpers';
+import { generateIdentityKeyPair } from './keys';
+import { withAddressLock } from './cipher';
+import {
+  parseSenderKeyDistributionMessage,
+  parseSenderKeyMessage,
+  serializeSenderKeyDistributionMessage,
+  serializeSenderKeyMessage
+} from './messages';
+import { SenderKeyStore } from './store';
+
+/**
+ * Maximum number of message keys a receiver derives ahead of its chain
+ */
+const MAX_SKIP = 2000;
+
+/**
+ * Number of older sender keys kept per sender for late messages
+ */
+const MAX_STATES = 5;
+
+/**
+ * One sender key generation of a group member
+ */
+export interface SenderKeyState {
+  keyId: number;
+  iteration: number;
+  chainKey: Buffer;
+  signingKey: Buffer;
+  signingPrivateKey?: Buffer;
+  messageKeys: Record<string, Buffer>;
+}
+
+/**
+ * Sender keys of one member in one group, newest first
+ */
+export interface SenderKeyRecord {
+  states: SenderKeyState[];
+}
+
+/**
+ * Storage name of a member's sender key in a group
+ * @param {String} groupId Group JID
+ * @param {String} sender Member JID
+ * @returns {String} Sender key name
+ */
+export function senderKeyName(groupId: string, sender: string): string {
+  return `${groupId}::${sender}`;
+}
+
+/**
+ * Advance a sender chain by one iteration (mutates the state)
+ * @param {SenderKeyState} state Sender key state
+ * @returns {Buffer} Message key seed of the state's previous iteration
+ */
+function chainStep(state: SenderKeyState): Buffer {
+  const seed = createHmac('sha256', state.chainKey).update(Buffer.from([0x01])).digest();
+  state.chainKey = createHmac('sha256', state.chainKey).update(Buffer.from([0x02])).digest();
+  state.iteration++;
+  return seed;
+}
+
+/**
+ * Expand a message key seed into IV and cipher key
+ * @param {Buffer} seed Message key seed
+ * @returns {Object} Message keys
+ */
+function deriveMessageKeys(seed: Buffer): { iv: Buffer; cipherKey: Buffer } {
+  const derived = Buffer.from(hkdfSync('sha256', seed, Buffer.alloc(32), Buffer.from('WhisperGroup', 'utf8'), 48));
+  return {
+    iv: derived.subarray(0, 16),
+    cipherKey: derived.subarray(16, 48)
+  };
+}
+
+/**
+ * Serialize a sender key record to JSON
+ * @param {SenderKeyRecord} record Sender key record
+ * @returns {String} JSON
+ */
+export function serializeSenderKeyRecord(record: SenderKeyRecord): string {
+  return JSON.stringify(record, bufferReplacer);
+}
+
+/**
+ * Restore a sender key record from JSON
+ * @param {String} json JSON written by serializeSenderKeyRecord
+ * @returns {SenderKeyRecord} Sender key record
+ */
+export function deserializeSenderKeyRecord(json: string): SenderKeyRecord {
+  return JSON.parse(json, bufferReviver);
+}
+
+/**
+ * Creates our own sender keys and processes the ones other members send us
+ */
+export class GroupSessionBuilder {
+  private store: SenderKeyStore;
+
+  /**
+   * Create a new group session builder
+   * @param {SenderKeyStore} store Sender key store
+   */
+  constructor(store: SenderKeyStore) {
+    this.store = store;
+  }
+
+  /**
+   * Get (creating it if needed) the distribution message for our sender key in a group
+   * @param {String} name Sender key name of our own key
+   * @returns {Promise<Buffer>} Serialized SenderKeyDistributionMessage
+   */
+  create(name: string): Promise<Buffer> {
+    return withAddressLock(name, async () => {
+      let record = await this.store.loadSenderKey(name);
+
+      if (!record || record.states.length === 0) {
+        const signingKeyPair = generateIdentityKeyPair();
+        record = {
+          states: [{
+            keyId: randomInt(1, 0x7FFFFFFF),
+            iteration: 0,
+            chainKey: randomBytes(32),
+            signingKey: signingKeyPair.publicKey,
+            signingPrivateKey: signingKeyPair.privateKey,
+            messageKeys: {}
+          }]
+        };
+        await this.store.storeSenderKey(name, record);
+      }
+
+      const state = record.states[0];
+      return serializeSenderKeyDistributionMessage({
+        keyId: state.keyId,
+        iteration: state.iteration,
+        chainKey: state.chainKey,
+        signingKey: state.signingKey
+      });
+    });
+  }
+
+  /**
+   * Store a sender key distributed by another member
+   * @param {String} name Sender key name of the distributing member
+   * @param {Buffer} data Serialized SenderKeyDistributionMessage
+   * @returns {Promise<void>}
+   */
+  process(name: string, data: Buffer): Promise<void> {
+    return withAddressLock(name, async () => {
+      const message = parseSenderKeyDistributionMessage(data);
+      const record = await this.store.loadSenderKey(name) || { states: [] };
+
+      const states = record.states.filter(state => state.keyId !== message.keyId);
+      states.unshift({
+        keyId: message.keyId,
+        iteration: message.iteration,
+        chainKey: message.chainKey,
+        signingKey: message.signingKey,
+        messageKeys: {}
+      });
+
+      await this.store.storeSenderKey(name, { states: states.slice(0, MAX_STATES) });
+    });
+  }
+}
+
+/**
+ * Encrypts and decrypts group messages with one member's sender key
+ */
+export class GroupCipher {
+  private store: SenderKeyStore;
+  private name: string;
+
+  /**
+   * Create a new group cipher
+   * @param {SenderKeyStore} store Sender key store
+   * @param {String} name Sender key name (see senderKeyName)
+   */
+  constructor(store: SenderKeyStore, name: string) {
+    this.store = store;
+    this.name = name;
+  }
+
+  /**
+   * Encrypt a plaintext with our sender key
+   * @param {Buffer} plaintext Plaintext
+   * @returns {Promise<Buffer>} Serialized SenderKeyMessage
+   */
+  encrypt(plaintext: Buffer): Promise<Buffer> {
+    return withAddressLock(this.name, async () => {
+      const record = await this.store.loadSenderKey(this.name);
+      const stored = record?.states[0];
+
+      if (!stored || !stored.signingPrivateKey) {
+        throw new SignalError(`No sender key for ${this.name}`, 'NO_SENDER_KEY');
+      }
+
+      const state = deserializeSenderKeyRecord(serializeSenderKeyRecord({ states: [stored] })).states[0];
+      const iteration = state.iteration;
+      const keys = deriveMessageKeys(chainStep(state));
+
+      const cipher = createCipheriv('aes-256-cbc', keys.cipherKey, keys.iv);
+      const body = serializeSenderKeyMessage({
+        keyId: state.keyId,
+        iteration,
+        ciphertext: Buffer.concat([cipher.update(plaintext), cipher.final()])
+      });
+
+      const signature = Buffer.from(ed25519.sign(body, state.signingPrivateKey));
+      await this.store.storeSenderKey(this.name, { states: [state, ...record!.states.slice(1)] });
+
+      return Buffer.concat([body, signature]);
+    });
+  }
+
+  /**
+   * Decrypt a SenderKeyMessage from the member owning this sender key
+   * @param {Buffer} data Serialized SenderKeyMessage
+   * @returns {Promise<Buffer>} Plaintext
+   */
+  decrypt(data: Buffer): Promise<Buffer> {
+    return withAddressLock(this.name, async () => {
+      const stored = await this.store.loadSenderKey(this.name);
+      if (!stored || stored.states.length === 0) {
+        throw new SignalError(`No sender key for ${this.name}`, 'NO_SENDER_KEY');
+      }
+
+      const message = parseSenderKeyMessage(data);
+      const record = deserializeSenderKeyRecord(serializeSenderKeyRecord(stored));
+      const state = record.states.find(candidate => candidate.keyId === message.keyId);
+
+      if (!state) {
+        throw new SignalError(`Unknown sender key ${message.keyId} for ${this.name}`, 'NO_SENDER_KEY');
+      }
+
+      if (!ed25519.verify(message.signature, message.body, state.signingKey)) {
+        throw new SignalError('Invalid sender key message signature', 'INVALID_SIGNATURE');
+      }
+
+      const keys = deriveMessageKeys(this.getMessageKeySeed(state, message.iteration));
+
+      let plaintext: Buffer;
+      try {
+        const decipher = createDecipheriv('aes-256-cbc', keys.cipherKey, keys.iv);
+        plaintext = Buffer.concat([decipher.update(message.ciphertext), decipher.final()]);
+      } catch (error) {
+        throw new SignalError(`Group message decryption failed: ${error.message}`, 'DECRYPT_FAILED');
+      }
+
+      await this.store.storeSenderKey(this.name, record);
+      return plaintext;
+    });
+  }
+
+  /**
+   * Get the message key seed for an iteration, keeping seeds of skipped iterations
+   * @param {SenderKeyState} state Sender key state (mutated)
+   * @param {Number} iteration Message iteration
+   * @returns {Buffer} Message key seed
+   * @private
+   */
+  private getMessageKeySeed(state: SenderKeyState, iteration: number): Buffer {
+    if (iteration < state.iteration) {
+      const seed = state.messageKeys[iteration];
+      if (!seed) {
+        throw new SignalError(`Duplicate group message (iteration ${iteration})`, 'DUPLICATE_MESSAGE');
+      }
+      delete state.messageKeys[iteration];
+      return seed;
+    }
+
+    if (iteration - state.iteration > MAX_SKIP) {
+      throw new SignalError('Too many skipped group messages', 'TOO_MANY_SKIPPED');
+    }
+
+    while (state.iteration < iteration) {
+      const skipped = state.iteration;
+      state.messageKeys[skipped] = chainStep(state);
+    }
+
+    return chainStep(state);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Signal Module
+ *
+ * Signal protocol sessions (X3DH + Double Ratchet) and group sender keys
+ * for end-to-end encrypted messages.
+ */
+
+export {
+  PreKey,
+  SignedPreKey,
+  PreKeyBundle,
+  PreKeyRange,
+  MAX_PRE_KEY_ID,
+  generateIdentityKeyPair,
+  generateRegistrationId,
+  generatePreKeys,
+  generateSignedPreKey,
+  verifySignedPreKey
+} from './keys';
+export { SignalMessageType, SIGNAL_VERSION } from './messages';
+export {
+  SenderKeyRecord,
+  SenderKeyState,
+  GroupSessionBuilder,
+  GroupCipher,
+  senderKeyName,
+  serializeSenderKeyRecord,
+  deserializeSenderKeyRecord
+} from './group';
+export { SessionRecord, serializeSessionRecord, deserializeSessionRecord } from './session';
+export { SignalKeyStore, InMemorySignalKeyStore, SenderKeyStore, InMemorySenderKeyStore } from './store';
+export { EncryptedSignalMessage, SessionBuilder, SessionCipher } from './cipher';
+export { SignalRepository, SignalUploadKeys } from './repository';
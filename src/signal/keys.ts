@@ -0,0 +1,146 @@
+/**
+ * Signal Keys
+ *
+ * Identity keys, signed pre-keys and one-time pre-keys.
+ *
+ * Identity keys are Ed25519 key pairs so they can sign pre-keys; they are
+ * converted to their Curve25519 form whenever they take part in a DH.
+ */
+
+import { randomBytes } from 'crypto';
+import { ed25519, edwardsToMontgomeryPriv, edwardsToMontgomeryPub } from '@noble/curves/ed25519';
+import { KeyPair, generateCurveKeyPair } from '../crypto/curve';
+
+/**
+ * One-time pre-key
+ */
+export interface PreKey {
+  keyId: number;
+  keyPair: KeyPair;
+}
+
+/**
+ * Signed pre-key
+ */
+export interface SignedPreKey {
+  keyId: number;
+  keyPair: KeyPair;
+  signature: Buffer;
+  timestamp: number;
+}
+
+/**
+ * Public keys published by a device so others can start a session with it
+ */
+export interface PreKeyBundle {
+  registrationId: number;
+  identityKey: Buffer;
+  signedPreKey: {
+    keyId: number;
+    publicKey: Buffer;
+    signature: Buffer;
+  };
+  preKey?: {
+    keyId: number;
+    publicKey: Buffer;
+  };
+}
+
+/**
+ * One-time pre-key ids of the batch last published to the server
+ */
+export interface PreKeyRange {
+  firstId: number;
+  count: number;
+}
+
+/**
+ * Largest pre-key id (24 bits)
+ */
+export const MAX_PRE_KEY_ID = 0xFFFFFF;
+
+/**
+ * Generate a new identity key pair
+ * @returns {KeyPair} Ed25519 identity key pair
+ */
+export function generateIdentityKeyPair(): KeyPair {
+  const privateKey = Buffer.from(ed25519.utils.randomPrivateKey());
+  return {
+    privateKey,
+    publicKey: Buffer.from(ed25519.getPublicKey(privateKey))
+  };
+}
+
+/**
+ * Generate a registration id (14 bits, never zero)
+ * @returns {Number} Registration id
+ */
+export function generateRegistrationId(): number {
+  return (randomBytes(2).readUInt16BE(0) & 0x3FFF) || 1;
+}
+
+/**
+ * Generate a batch of one-time pre-keys
+ * @param {Number} startId First key id
+ * @param {Number} count Number of keys
+ * @returns {PreKey[]} Pre-keys
+ */
+export function generatePreKeys(startId: number, count: number): PreKey[] {
+  const preKeys: PreKey[] = [];
+  for (let i = 0; i < count; i++) {
+    preKeys.push({
+      keyId: ((startId + i - 1) % MAX_PRE_KEY_ID) + 1,
+      keyPair: generateCurveKeyPair()
+    });
+  }
+  return preKeys;
+}
+
+/**
+ * Generate a signed pre-key
+ * @param {KeyPair} identityKeyPair Identity key pair used to sign
+ * @param {Number} keyId Key id
+ * @returns {SignedPreKey} Signed pre-key
+ */
+export function generateSignedPreKey(identityKeyPair: KeyPair, keyId: number): SignedPreKey {
+  const keyPair = generateCurveKeyPair();
+  return {
+    keyId,
+    keyPair,
+    signature: Buffer.from(ed25519.sign(keyPair.publicKey, identityKeyPair.privateKey)),
+    timestamp: Date.now()
+  };
+}
+
+/**
+ * Verify the signature of a signed pre-key
+ * @param {Buffer} identityKey Signer identity public key
+ * @param {Buffer} publicKey Signed pre-key public key
+ * @param {Buffer} signature Signature
+ * @returns {Boolean} Whether the signature is valid
+ */
+export function verifySignedPreKey(identityKey: Buffer, publicKey: Buffer, signature: Buffer): boolean {
+  try {
+    return ed25519.verify(signature, publicKey, identityKey);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Convert an identity private key to its Curve25519 form
+ * @param {Buffer} privateKey Ed25519 private key
+ * @returns {Buffer} Curve25519 private key
+ */
+export function identityToCurvePrivate(privateKey: Buffer): Buffer {
+  return Buffer.from(edwardsToMontgomeryPriv(privateKey));
+}
+
+/**
+ * Convert an identity public key to its Curve25519 form
+ * @param {Buffer} publicKey Ed25519 public key
+ * @returns {Buffer} Curve25519 public key
+ */
+export function identityToCurvePublic(publicKey: Buffer): Buffer {
+  return Buffer.from(edwardsToMontgomeryPub(publicKey));
+}
@@ -0,0 +1,241 @@
+/**
+ * Signal Wire Messages
+ *
+ * Binary layout of the two ciphertext types exchanged between sessions:
+ *
+ * - 'msg'    SignalMessage:       version(1) ratchetKey(32) counter(4) previousCounter(4) ciphertext mac(8)
+ * - 'pkmsg'  PreKeySignalMessage: version(1) registrationId(4) preKeyId(4) signedPreKeyId(4)
+ *                                 baseKey(32) identityKey(32) SignalMessage
+ * - 'skmsg'  SenderKeyMessage:    version(1) keyId(4) iteration(4) ciphertext signature(64)
+ *
+ * and the SenderKeyDistributionMessage sent over 1:1 sessions to share a group sender key:
+ *            version(1) keyId(4) iteration(4) chainKey(32) signingKey(32)
+ */
+
+import { SignalError } from '../utils/errors';
+
+export const SIGNAL_VERSION = 0x33;
+export const MAC_LENGTH = 8;
+export const SIGNATURE_LENGTH = 64;
+
+/**
+ * preKeyId value used when no one-time pre-key was consumed
+ */
+const NO_PRE_KEY = 0xFFFFFFFF;
+
+export type SignalMessageType = 'msg' | 'pkmsg';
+
+/**
+ * Parsed SignalMessage
+ */
+export interface SignalMessage {
+  ratchetKey: Buffer;
+  counter: number;
+  previousCounter: number;
+  ciphertext: Buffer;
+  mac: Buffer;
+  body: Buffer;
+}
+
+/**
+ * Parsed PreKeySignalMessage
+ */
+export interface PreKeySignalMessage {
+  registrationId: number;
+  preKeyId?: number;
+  signedPreKeyId: number;
+  baseKey: Buffer;
+  identityKey: Buffer;
+  message: Buffer;
+}
+
+/**
+ * Serialize a SignalMessage without its MAC
+ * @param {Object} message Message fields
+ * @returns {Buffer} Message body (the MAC is computed over it and appended)
+ */
+export function serializeSignalMessage(message: {
+  ratchetKey: Buffer;
+  counter: number;
+  previousCounter: number;
+  ciphertext: Buffer;
+}): Buffer {
+  const header = Buffer.alloc(9);
+  header.writeUInt8(SIGNAL_VERSION, 0);
+  header.writeUInt32BE(message.counter, 1);
+  header.writeUInt32BE(message.previousCounter, 5);
+
+  return Buffer.concat([
+    header.subarray(0, 1),
+    message.ratchetKey,
+    header.subarray(1),
+    message.ciphertext
+  ]);
+}
+
+/**
+ * Parse a SignalMessage
+ * @param {Buffer} data Serialized message including the MAC
+ * @returns {SignalMessage} Parsed message
+ */
+export function parseSignalMessage(data: Buffer): SignalMessage {
+  if (data.length < 1 + 32 + 8 + 16 + MAC_LENGTH) {
+    throw new SignalError('SignalMessage too short', 'INVALID_MESSAGE');
+  }
+
+  checkVersion(data[0]);
+
+  const body = data.subarray(0, data.length - MAC_LENGTH);
+  return {
+    ratchetKey: Buffer.from(data.subarray(1, 33)),
+    counter: data.readUInt32BE(33),
+    previousCounter: data.readUInt32BE(37),
+    ciphertext: Buffer.from(body.subarray(41)),
+    mac: Buffer.from(data.subarray(data.length - MAC_LENGTH)),
+    body: Buffer.from(body)
+  };
+}
+
+/**
+ * Serialize a PreKeySignalMessage
+ * @param {PreKeySignalMessage} message Message fields
+ * @returns {Buffer} Serialized message
+ */
+export function serializePreKeySignalMessage(message: PreKeySignalMessage): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt8(SIGNAL_VERSION, 0);
+  header.writeUInt32BE(message.registrationId, 1);
+  header.writeUInt32BE(message.preKeyId ?? NO_PRE_KEY, 5);
+  header.writeUInt32BE(message.signedPreKeyId, 9);
+
+  return Buffer.concat([header, message.baseKey, message.identityKey, message.message]);
+}
+
+/**
+ * Parse a PreKeySignalMessage
+ * @param {Buffer} data Serialized message
+ * @returns {PreKeySignalMessage} Parsed message
+ */
+export function parsePreKeySignalMessage(data: Buffer): PreKeySignalMessage {
+  if (data.length < 13 + 64) {
+    throw new SignalError('PreKeySignalMessage too short', 'INVALID_MESSAGE');
+  }
+
+  checkVersion(data[0]);
+
+  const preKeyId = data.readUInt32BE(5);
+  return {
+    registrationId: data.readUInt32BE(1),
+    preKeyId: preKeyId === NO_PRE_KEY ? undefined : preKeyId,
+    signedPreKeyId: data.readUInt32BE(9),
+    baseKey: Buffer.from(data.subarray(13, 45)),
+    identityKey: Buffer.from(data.subarray(45, 77)),
+    message: Buffer.from(data.subarray(77))
+  };
+}
+
+/**
+ * Parsed SenderKeyMessage
+ */
+export interface SenderKeyMessage {
+  keyId: number;
+  iteration: number;
+  ciphertext: Buffer;
+  signature: Buffer;
+  body: Buffer;
+}
+
+/**
+ * Parsed SenderKeyDistributionMessage
+ */
+export interface SenderKeyDistributionMessage {
+  keyId: number;
+  iteration: number;
+  chainKey: Buffer;
+  signingKey: Buffer;
+}
+
+/**
+ * Serialize a SenderKeyMessage without its signature
+ * @param {Object} message Message fields
+ * @returns {Buffer} Message body (the signature is computed over it and appended)
+ */
+export function serializeSenderKeyMessage(message: {
+  keyId: number;
+  iteration: number;
+  ciphertext: Buffer;
+}): Buffer {
+  const header = Buffer.alloc(9);
+  header.writeUInt8(SIGNAL_VERSION, 0);
+  header.writeUInt32BE(message.keyId, 1);
+  header.writeUInt32BE(message.iteration, 5);
+
+  return Buffer.concat([header, message.ciphertext]);
+}
+
+/**
+ * Parse a SenderKeyMessage
+ * @param {Buffer} data Serialized message including the signature
+ * @returns {SenderKeyMessage} Parsed message
+ */
+export function parseSenderKeyMessage(data: Buffer): SenderKeyMessage {
+  if (data.length < 9 + 16 + SIGNATURE_LENGTH) {
+    throw new SignalError('SenderKeyMessage too short', 'INVALID_MESSAGE');
+  }
+
+  checkVersion(data[0]);
+
+  const body = data.subarray(0, data.length - SIGNATURE_LENGTH);
+  return {
+    keyId: data.readUInt32BE(1),
+    iteration: data.readUInt32BE(5),
+    ciphertext: Buffer.from(body.subarray(9)),
+    signature: Buffer.from(data.subarray(data.length - SIGNATURE_LENGTH)),
+    body: Buffer.from(body)
+  };
+}
+
+/**
+ * Serialize a SenderKeyDistributionMessage
+ * @param {SenderKeyDistributionMessage} message Message fields
+ * @returns {Buffer} Serialized message
+ */
+export function serializeSenderKeyDistributionMessage(message: SenderKeyDistributionMessage): Buffer {
+  const header = Buffer.alloc(9);
+  header.writeUInt8(SIGNAL_VERSION, 0);
+  header.writeUInt32BE(message.keyId, 1);
+  header.writeUInt32BE(message.iteration, 5);
+
+  return Buffer.concat([header, message.chainKey, message.signingKey]);
+}
+
+/**
+ * Parse a SenderKeyDistributionMessage
+ * @param {Buffer} data Serialized message
+ * @returns {SenderKeyDistributionMessage} Parsed message
+ */
+export function parseSenderKeyDistributionMessage(data: Buffer): SenderKeyDistributionMessage {
+  if (data.length !== 9 + 64) {
+    throw new SignalError('Invalid SenderKeyDistributionMessage length', 'INVALID_MESSAGE');
+  }
+
+  checkVersion(data[0]);
+
+  return {
+    keyId: data.readUInt32BE(1),
+    iteration: data.readUInt32BE(5),
+    chainKey: Buffer.from(data.subarray(9, 41)),
+    signingKey: Buffer.from(data.subarray(41, 73))
+  };
+}
+
+/**
+ * Ensure a message uses the supported protocol version
+ * @param {Number} version Version byte
+ * @private
+ */
+function checkVersion(version: number): void {
+  if (version !== SIGNAL_VERSION) {
+    throw new SignalError(`Unsupported Signal message version: 0x${version.toString(16)}`, 'INVALID_VERSION');
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Signal Repository
+ *
+ * Entry point used by the client: keeps the key stores, generates the keys
+ * we publish to the server and encrypts/decrypts messages per JID and per group.
+ */
+
+import { PreKey, PreKeyBundle, SignedPreKey, MAX_PRE_KEY_ID, generatePreKeys, generateSignedPreKey } from './keys';
+import { EncryptedSignalMessage, SessionBuilder, SessionCipher } from './cipher';
+import { GroupCipher, GroupSessionBuilder, senderKeyName } from './group';
+import { SignalMessageType } from './messages';
+import { InMemorySenderKeyStore, InMemorySignalKeyStore, SenderKeyStore, SignalKeyStore } from './store';
+
+/**
+ * Keys to publish so other devices can start sessions with us
+ */
+export interface SignalUploadKeys {
+  registrationId: number;
+  identityKey: Buffer;
+  signedPreKey: SignedPreKey;
+  preKeys: PreKey[];
+}
+
+/**
+ * Signal session repository
+ */
+export class SignalRepository {
+  private store: SignalKeyStore;
+  private senderKeyStore: SenderKeyStore;
+
+  /**
+   * Create a new repository
+   * @param {SignalKeyStore} store Key store (in-memory when omitted)
+   * @param {SenderKeyStore} senderKeyStore Group sender key store (in-memory when omitted)
+   */
+  constructor(store?: SignalKeyStore, senderKeyStore?: SenderKeyStore) {
+    this.store = store || new InMemorySignalKeyStore();
+    this.senderKeyStore = senderKeyStore || new InMemorySenderKeyStore();
+  }
+
+  /**
+   * Get the underlying key store
+   * @returns {SignalKeyStore} Key store
+   */
+  getStore(): SignalKeyStore {
+    return this.store;
+  }
+
+  /**
+   * Generate and store a signed pre-key and a batch of one-time pre-keys.
+   * Ids continue after the last published batch; call confirmUpload() once
+   * the server accepted the keys, until then the next call reuses the ids.
+   * @param {Number} count Number of one-time pre-keys
+   * @returns {Promise<SignalUploadKeys>} Keys to upload
+   */
+  async generateUploadKeys(count: number = 30): Promise<SignalUploadKeys> {
+    const identityKeyPair = await this.store.getIdentityKeyPair();
+
+    let signedPreKey = await this.store.loadSignedPreKey(1);
+    if (!signedPreKey) {
+      signedPreKey = generateSignedPreKey(identityKeyPair, 1);
+      await this.store.storeSignedPreKey(signedPreKey);
+    }
+
+    const published = await this.store.loadPreKeyRange();
+    const firstId = published ? ((published.firstId + published.count - 1) % MAX_PRE_KEY_ID) + 1 : 1;
+
+    const preKeys = generatePreKeys(firstId, count);
+    for (const preKey of preKeys) {
+      await this.store.storePreKey(preKey);
+    }
+
+    return {
+      registrationId: await this.store.getLocalRegistrationId(),
+      identityKey: identityKeyPair.publicKey,
+      signedPreKey,
+      preKeys
+    };
+  }
+
+  /**
+   * Record a batch of pre-keys as published. The server replaces its pre-keys
+   * with every upload, so the keys of the batch before are removed.
+   * @param {SignalUploadKeys} keys Keys the server accepted
+   * @returns {Promise<void>}
+   */
+  async confirmUpload(keys: SignalUploadKeys): Promise<void> {
+    const uploaded = new Set(keys.preKeys.map(preKey => preKey.keyId));
+    const superseded = await this.store.loadPreKeyRange();
+
+    if (superseded) {
+      for (let i = 0; i < superseded.count; i++) {
+        const keyId = ((superseded.firstId + i - 1) % MAX_PRE_KEY_ID) + 1;
+        if (!uploaded.has(keyId)) {
+          await this.store.removePreKey(keyId);
+        }
+      }
+    }
+
+    if (keys.preKeys.length > 0) {
+      await this.store.storePreKeyRange({ firstId: keys.preKeys[0].keyId, count: keys.preKeys.length });
+    }
+  }
+
+  /**
+   * Start a session from a remote pre-key bundle
+   * @param {String} jid Remote JID
+   * @param {PreKeyBundle} bundle Remote pre-key bundle
+   * @returns {Promise<void>}
+   */
+  injectSession(jid: string, bundle: PreKeyBundle): Promise<void> {
+    return new SessionBuilder(this.store, jid).processPreKeyBundle(bundle);
+  }
+
+  /**
+   * Whether a session with a JID exists
+   * @param {String} jid Remote JID
+   * @returns {Promise<Boolean>}
+   */
+  hasSession(jid: string): Promise<boolean> {
+    return new SessionCipher(this.store, jid).hasSession();
+  }
+
+  /**
+   * Encrypt a message for a JID
+   * @param {String} jid Remote JID
+   * @param {Buffer} plaintext Plaintext
+   * @returns {Promise<EncryptedSignalMessage>} Ciphertext and its type
+   */
+  encryptMessage(jid: string, plaintext: Buffer): Promise<EncryptedSignalMessage> {
+    return new SessionCipher(this.store, jid).encrypt(plaintext);
+  }
+
+  /**
+   * Decrypt a message from a JID
+   * @param {String} jid Remote JID
+   * @param {SignalMessageType} type Message type
+   * @param {Buffer} body Ciphertext
+   * @returns {Promise<Buffer>} Plaintext
+   */
+  decryptMessage(jid: string, type: SignalMessageType, body: Buffer): Promise<Buffer> {
+    return new SessionCipher(this.store, jid).decrypt(type, body);
+  }
+
+  /**
+   * Get the distribution message for our sender key in a group, creating the key if needed
+   * @param {String} groupId Group JID
+   * @param {String} ownJid Our own JID
+   * @returns {Promise<Buffer>} Serialized SenderKeyDistributionMessage
+   */
+  createSenderKeyDistribution(groupId: string, ownJid: string): Promise<Buffer> {
+    return new GroupSessionBuilder(this.senderKeyStore).create(senderKeyName(groupId, ownJid));
+  }
+
+  /**
+   * Store the sender key another group member distributed to us
+   * @param {String} groupId Group JID
+   * @param {String} senderJid Member JID
+   * @param {Buffer} distribution Serialized SenderKeyDistributionMessage
+   * @returns {Promise<void>}
+   */
+  processSenderKeyDistribution(groupId: string, senderJid: string, distribution: Buffer): Promise<void> {
+    return new GroupSessionBuilder(this.senderKeyStore).process(senderKeyName(groupId, senderJid), distribution);
+  }
+
+  /**
+   * Drop our sender key in a group so the next distribution uses a fresh one
+   * @param {String} groupId Group JID
+   * @param {String} ownJid Our own JID
+   * @returns {Promise<void>}
+   */
+  rotateSenderKey(groupId: string, ownJid: string): Promise<void> {
+    return this.senderKeyStore.removeSenderKey(senderKeyName(groupId, ownJid));
+  }
+
+  /**
+   * Encrypt a group message with our sender key
+   * @param {String} groupId Group JID
+   * @param {String} ownJid Our own JID
+   * @param {Buffer} plaintext Plaintext
+   * @returns {Promise<Buffer>} Serialized SenderKeyMessage
+   */
+  encryptGroupMessage(groupId: string, ownJid: string, plaintext: Buffer): Promise<Buffer> {
+    return new GroupCipher(this.senderKeyStore, senderKeyName(groupId, ownJid)).encrypt(plaintext);
+  }
+
+  /**
+   * Decrypt a group message with the sender's sender key
+   * @param {String} groupId Group JID
+   * @param {String} senderJid Member JID
+   * @param {Buffer} body Serialized SenderKeyMessage
+   * @returns {Promise<Buffer>} Plaintext
+   */
+  decryptGroupMessage(groupId: string, senderJid: string, body: Buffer): Promise<Buffer> {
+    return new GroupCipher(this.senderKeyStore, senderKeyName(groupId, senderJid)).decrypt(body);
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * Signal Sessions
+ *
+ * X3DH session setup and the Double Ratchet that runs on top of it.
+ * Session records are plain objects so any key store can persist them
+ * with serializeSessionRecord/deserializeSessionRecord.
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, timingSafeEqual } from 'crypto';
+import { KeyPair, generateCurveKeyPair, curveSharedSecret } from '../crypto/curve';
+import { SignalError } from '../utils/errors';
+import { bufferReplacer, bufferReviver } from '../utils/helpers';
+import { identityToCurvePrivate, identityToCurvePublic } from './keys';
+import { MAC_LENGTH, parseSignalMessage, serializeSignalMessage } from './messages';
+
+/**
+ * Maximum number of message keys kept for out-of-order messages in one chain
+ */
+const MAX_SKIP = 2000;
+
+/**
+ * Symmetric chain of the ratchet
+ */
+export interface ChainState {
+  key: Buffer;
+  counter: number;
+}
+
+/**
+ * Pre-key details resent with every message until the peer answers
+ */
+export interface PendingPreKey {
+  preKeyId?: number;
+  signedPreKeyId: number;
+  baseKey: Buffer;
+}
+
+/**
+ * State of a session with one remote device
+ */
+export interface SessionRecord {
+  localIdentityKey: Buffer;
+  remoteIdentityKey: Buffer;
+  remoteRegistrationId: number;
+  baseKey: Buffer;
+  rootKey: Buffer;
+  ratchetKeyPair: KeyPair;
+  remoteRatchetKey: Buffer | null;
+  sendingChain: ChainState | null;
+  receivingChain: ChainState | null;
+  previousCounter: number;
+  skippedKeys: Record<string, Buffer>;
+  pendingPreKey?: PendingPreKey;
+}
+
+/**
+ * HKDF-SHA256
+ * @param {Buffer} input Input key material
+ * @param {Buffer} salt Salt
+ * @param {String} info Context string
+ * @param {Number} length Output length
+ * @returns {Buffer} Derived bytes
+ */
+function hkdf(input: Buffer, salt: Buffer, info: string, length: number): Buffer {
+  return Buffer.from(hkdfSync('sha256', input, salt, Buffer.from(info, 'utf8'), length));
+}
+
+/**
+ * Derive the shared secret of an X3DH agreement
+ * @param {Buffer[]} secrets DH outputs in protocol order
+ * @returns {Buffer} 32 byte root key
+ */
+function deriveX3DHSecret(secrets: Buffer[]): Buffer {
+  const input = Buffer.concat([Buffer.alloc(32, 0xFF), ...secrets]);
+  return hkdf(input, Buffer.alloc(32), 'WhisperText', 32);
+}
+
+/**
+ * Advance the root chain with a DH output
+ * @param {Buffer} rootKey Current root key
+ * @param {Buffer} dhOutput DH output
+ * @returns {Buffer[]} New root key and chain key
+ */
+function kdfRootKey(rootKey: Buffer, dhOutput: Buffer): [Buffer, Buffer] {
+  const derived = hkdf(dhOutput, rootKey, 'WhisperRatchet', 64);
+  return [derived.subarray(0, 32), derived.subarray(32, 64)];
+}
+
+/**
+ * Advance a symmetric chain
+ * @param {ChainState} chain Chain to advance (mutated)
+ * @returns {Buffer} Message key seed for the chain's previous counter
+ */
+function chainStep(chain: ChainState): Buffer {
+  const seed = createHmac('sha256', chain.key).update(Buffer.from([0x01])).digest();
+  chain.key = createHmac('sha256', chain.key).update(Buffer.from([0x02])).digest();
+  chain.counter++;
+  return seed;
+}
+
+/**
+ * Expand a message key seed into cipher key, MAC key and IV
+ * @param {Buffer} seed Message key seed
+ * @returns {Object} Message keys
+ */
+function deriveMessageKeys(seed: Buffer): { cipherKey: Buffer; macKey: Buffer; iv: Buffer } {
+  const derived = hkdf(seed, Buffer.alloc(32), 'WhisperMessageKeys', 80);
+  return {
+    cipherKey: derived.subarray(0, 32),
+    macKey: derived.subarray(32, 64),
+    iv: derived.subarray(64, 80)
+  };
+}
+
+/**
+ * Compute the truncated MAC of a message body
+ * @param {Buffer} macKey MAC key
+ * @param {Buffer} senderIdentity Sender identity key
+ * @param {Buffer} receiverIdentity Receiver identity key
+ * @param {Buffer} body Serialized message without MAC
+ * @returns {Buffer} 8 byte MAC
+ */
+function computeMac(macKey: Buffer, senderIdentity: Buffer, receiverIdentity: Buffer, body: Buffer): Buffer {
+  return createHmac('sha256', macKey)
+    .update(Buffer.concat([senderIdentity, receiverIdentity, body]))
+    .digest()
+    .subarray(0, MAC_LENGTH);
+}
+
+/**
+ * Key under which a skipped message key is stored
+ * @param {Buffer} ratchetKey Remote ratchet key of the chain
+ * @param {Number} counter Message counter
+ * @returns {String} Lookup key
+ */
+function skippedKeyId(ratchetKey: Buffer, counter: number): string {
+  return `${ratchetKey.toString('hex')}:${counter}`;
+}
+
+/**
+ * Set up a session as the initiator (Alice) from the responder's public keys
+ * @param {Object} params X3DH parameters
+ * @returns {SessionRecord} New session
+ */
+export function initializeInitiatorSession(params: {
+  identityKeyPair: KeyPair;
+  baseKeyPair: KeyPair;
+  remoteRegistrationId: number;
+  remoteIdentityKey: Buffer;
+  remoteSignedPreKey: Buffer;
+  remoteSignedPreKeyId: number;
+  remotePreKey?: Buffer;
+  remotePreKeyId?: number;
+}): SessionRecord {
+  const secrets = [
+    curveSharedSecret(identityToCurvePrivate(params.identityKeyPair.privateKey), params.remoteSignedPreKey),
+    curveSharedSecret(params.baseKeyPair.privateKey, identityToCurvePublic(params.remoteIdentityKey)),
+    curveSharedSecret(params.baseKeyPair.privateKey, params.remoteSignedPreKey)
+  ];
+
+  if (params.remotePreKey) {
+    secrets.push(curveSharedSecret(params.baseKeyPair.privateKey, params.remotePreKey));
+  }
+
+  const ratchetKeyPair = generateCurveKeyPair();
+  const [rootKey, chainKey] = kdfRootKey(
+    deriveX3DHSecret(secrets),
+    curveSharedSecret(ratchetKeyPair.privateKey, params.remoteSignedPreKey)
+  );
+
+  return {
+    localIdentityKey: params.identityKeyPair.publicKey,
+    remoteIdentityKey: params.remoteIdentityKey,
+    remoteRegistrationId: params.remoteRegistrationId,
+    baseKey: params.baseKeyPair.publicKey,
+    rootKey,
+    ratchetKeyPair,
+    remoteRatchetKey: params.remoteSignedPreKey,
+    sendingChain: { key: chainKey, counter: 0 },
+    receivingChain: null,
+    previousCounter: 0,
+    skippedKeys: {},
+    pendingPreKey: {
+      preKeyId: params.remotePreKeyId,
+      signedPreKeyId: params.remoteSignedPreKeyId,
+      baseKey: params.baseKeyPair.publicKey
+    }
+  };
+}
+
+/**
+ * Set up a session as the responder (Bob) from an incoming pre-key message
+ * @param {Object} params X3DH parameters
+ * @returns {SessionRecord} New session
+ */
+export function initializeResponderSession(params: {
+  identityKeyPair: KeyPair;
+  signedPreKeyPair: KeyPair;
+  preKeyPair?: KeyPair;
+  remoteRegistrationId: number;
+  remoteIdentityKey: Buffer;
+  remoteBaseKey: Buffer;
+}): SessionRecord {
+  const secrets = [
+    curveSharedSecret(params.signedPreKeyPair.privateKey, identityToCurvePublic(params.remoteIdentityKey)),
+    curveSharedSecret(identityToCurvePrivate(params.identityKeyPair.privateKey), params.remoteBaseKey),
+    curveSharedSecret(params.signedPreKeyPair.privateKey, params.remoteBaseKey)
+  ];
+
+  if (params.preKeyPair) {
+    secrets.push(curveSharedSecret(params.preKeyPair.privateKey, params.remoteBaseKey));
+  }
+
+  return {
+    localIdentityKey: params.identityKeyPair.publicKey,
+    remoteIdentityKey: params.remoteIdentityKey,
+    remoteRegistrationId: params.remoteRegistrationId,
+    baseKey: params.remoteBaseKey,
+    rootKey: deriveX3DHSecret(secrets),
+    ratchetKeyPair: params.signedPreKeyPair,
+    remoteRatchetKey: null,
+    sendingChain: null,
+    receivingChain: null,
+    previousCounter: 0,
+    skippedKeys: {}
+  };
+}
+
+/**
+ * Encrypt a plaintext with the sending chain (mutates the session)
+ * @param {SessionRecord} session Session
+ * @param {Buffer} plaintext Plaintext
+ * @returns {Buffer} Serialized SignalMessage
+ */
+export function ratchetEncrypt(session: SessionRecord, plaintext: Buffer): Buffer {
+  if (!session.sendingChain) {
+    throw new SignalError('Session has no sending chain yet', 'NO_SENDING_CHAIN');
+  }
+
+  const counter = session.sendingChain.counter;
+  const keys = deriveMessageKeys(chainStep(session.sendingChain));
+
+  const cipher = createCipheriv('aes-256-cbc', keys.cipherKey, keys.iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  const body = serializeSignalMessage({
+    ratchetKey: session.ratchetKeyPair.publicKey,
+    counter,
+    previousCounter: session.previousCounter,
+    ciphertext
+  });
+
+  return Buffer.concat([
+    body,
+    computeMac(keys.macKey, session.localIdentityKey, session.remoteIdentityKey, body)
+  ]);
+}
+
+/**
+ * Decrypt a SignalMessage, stepping the ratchet as needed (mutates the session)
+ * @param {SessionRecord} session Session
+ * @param {Buffer} data Serialized SignalMessage
+ * @returns {Buffer} Plaintext
+ */
+export function ratchetDecrypt(session: SessionRecord, data: Buffer): Buffer {
+  const message = parseSignalMessage(data);
+  const keyId = skippedKeyId(message.ratchetKey, message.counter);
+  let seed: Buffer | undefined = session.skippedKeys[keyId];
+
+  if (seed) {
+    delete session.skippedKeys[keyId];
+  } else {
+    if (!session.remoteRatchetKey || !message.ratchetKey.equals(session.remoteRatchetKey)) {
+      skipMessageKeys(session, message.previousCounter);
+      stepRatchet(session, message.ratchetKey);
+    }
+
+    if (message.counter < session.receivingChain!.counter) {
+      throw new SignalError(`Duplicate message (counter ${message.counter})`, 'DUPLICATE_MESSAGE');
+    }
+
+    skipMessageKeys(session, message.counter);
+    seed = chainStep(session.receivingChain!);
+  }
+
+  const keys = deriveMessageKeys(seed);
+  const mac = computeMac(keys.macKey, session.remoteIdentityKey, session.localIdentityKey, message.body);
+
+  if (!timingSafeEqual(mac, message.mac)) {
+    throw new SignalError('Bad MAC', 'BAD_MAC');
+  }
+
+  try {
+    const decipher = createDecipheriv('aes-256-cbc', keys.cipherKey, keys.iv);
+    return Buffer.concat([decipher.update(message.ciphertext), decipher.final()]);
+  } catch (error) {
+    throw new SignalError(`Message decryption failed: ${error.message}`, 'DECRYPT_FAILED');
+  }
+}
+
+/**
+ * Store message keys for messages that have not arrived yet
+ * @param {SessionRecord} session Session
+ * @param {Number} until Counter to advance the receiving chain to
+ */
+function skipMessageKeys(session: SessionRecord, until: number): void {
+  const chain = session.receivingChain;
+  if (!chain) return;
+
+  if (until - chain.counter > MAX_SKIP) {
+    throw new SignalError('Too many skipped messages', 'TOO_MANY_SKIPPED');
+  }
+
+  while (chain.counter < until) {
+    const counter = chain.counter;
+    session.skippedKeys[skippedKeyId(session.remoteRatchetKey!, counter)] = chainStep(chain);
+  }
+}
+
+/**
+ * Perform a DH ratchet step with a new remote ratchet key
+ * @param {SessionRecord} session Session
+ * @param {Buffer} remoteRatchetKey Remote ratchet public key
+ */
+function stepRatchet(session: SessionRecord, remoteRatchetKey: Buffer): void {
+  session.previousCounter = session.sendingChain ? session.sendingChain.counter : 0;
+  session.remoteRatchetKey = remoteRatchetKey;
+
+  const [receivingRoot, receivingKey] = kdfRootKey(
+    session.rootKey,
+    curveSharedSecret(session.ratchetKeyPair.privateKey, remoteRatchetKey)
+  );
+  session.receivingChain = { key: receivingKey, counter: 0 };
+
+  session.ratchetKeyPair = generateCurveKeyPair();
+  const [sendingRoot, sendingKey] = kdfRootKey(
+    receivingRoot,
+    curveSharedSecret(session.ratchetKeyPair.privateKey, remoteRatchetKey)
+  );
+  session.rootKey = sendingRoot;
+  session.sendingChain = { key: sendingKey, counter: 0 };
+}
+
+/**
+ * Serialize a session record to JSON
+ * @param {SessionRecord} record Session record
+ * @returns {String} JSON
+ */
+export function serializeSessionRecord(record: SessionRecord): string {
+  return JSON.stringify(record, bufferReplacer);
+}
+
+/**
+ * Restore a session record from JSON
+ * @param {String} json JSON written by serializeSessionRecord
+ * @returns {SessionRecord} Session record
+ */
+export function deserializeSessionRecord(json: string): SessionRecord {
+  return JSON.parse(json, bufferReviver);
+}
+
+/**
+ * Deep copy a session record so failed decryptions leave the original untouched
+ * @param {SessionRecord} record Session record
+ * @returns {SessionRecord} Copy
+ */
+export function cloneSessionRecord(record: SessionRecord): SessionRecord {
+  return deserializeSessionRecord(serializeSessionRecord(record));
+}
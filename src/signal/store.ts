@@ -0,0 +1,147 @@
+/**
+ * Signal Key Store
+ *
+ * Storage interface for everything the Signal session layer persists:
+ * our identity, pre-keys, remote identities and session records.
+ * Implement SignalKeyStore to plug in your own backend.
+ */
+
+import { KeyPair } from '../crypto/curve';
+import { PreKey, PreKeyRange, SignedPreKey, generateIdentityKeyPair, generateRegistrationId } from './keys';
+import { SessionRecord } from './session';
+import { SenderKeyRecord } from './group';
+
+/**
+ * Pluggable storage backend for Signal keys and sessions
+ */
+export interface SignalKeyStore {
+  getIdentityKeyPair(): Promise<KeyPair>;
+  getLocalRegistrationId(): Promise<number>;
+
+  isTrustedIdentity(address: string, identityKey: Buffer): Promise<boolean>;
+  saveIdentity(address: string, identityKey: Buffer): Promise<void>;
+
+  loadPreKey(keyId: number): Promise<PreKey | undefined>;
+  storePreKey(preKey: PreKey): Promise<void>;
+  removePreKey(keyId: number): Promise<void>;
+
+  loadPreKeyRange(): Promise<PreKeyRange | undefined>;
+  storePreKeyRange(range: PreKeyRange): Promise<void>;
+
+  loadSignedPreKey(keyId: number): Promise<SignedPreKey | undefined>;
+  storeSignedPreKey(signedPreKey: SignedPreKey): Promise<void>;
+
+  loadSession(address: string): Promise<SessionRecord | undefined>;
+  storeSession(address: string, record: SessionRecord): Promise<void>;
+  removeSession(address: string): Promise<void>;
+}
+
+/**
+ * Pluggable storage backend for group sender keys, keyed by senderKeyName()
+ */
+export interface SenderKeyStore {
+  loadSenderKey(name: string): Promise<SenderKeyRecord | undefined>;
+  storeSenderKey(name: string, record: SenderKeyRecord): Promise<void>;
+  removeSenderKey(name: string): Promise<void>;
+}
+
+/**
+ * Signal key store kept in memory (lost when the process exits)
+ */
+export class InMemorySignalKeyStore implements SignalKeyStore {
+  private identityKeyPair: KeyPair;
+  private registrationId: number;
+  private identities: Map<string, Buffer> = new Map();
+  private preKeys: Map<number, PreKey> = new Map();
+  private preKeyRange: PreKeyRange | undefined;
+  private signedPreKeys: Map<number, SignedPreKey> = new Map();
+  private sessions: Map<string, SessionRecord> = new Map();
+
+  /**
+   * Create a new in-memory store
+   * @param {Object} options Existing identity to reuse
+   */
+  constructor(options: { identityKeyPair?: KeyPair; registrationId?: number } = {}) {
+    this.identityKeyPair = options.identityKeyPair || generateIdentityKeyPair();
+    this.registrationId = options.registrationId || generateRegistrationId();
+  }
+
+  async getIdentityKeyPair(): Promise<KeyPair> {
+    return this.identityKeyPair;
+  }
+
+  async getLocalRegistrationId(): Promise<number> {
+    return this.registrationId;
+  }
+
+  /**
+   * Trust on first use: an identity is trusted unless a different one was saved
+   */
+  async isTrustedIdentity(address: string, identityKey: Buffer): Promise<boolean> {
+    const existing = this.identities.get(address);
+    return !existing || existing.equals(identityKey);
+  }
+
+  async saveIdentity(address: string, identityKey: Buffer): Promise<void> {
+    this.identities.set(address, identityKey);
+  }
+
+  async loadPreKey(keyId: number): Promise<PreKey | undefined> {
+    return this.preKeys.get(keyId);
+  }
+
+  async storePreKey(preKey: PreKey): Promise<void> {
+    this.preKeys.set(preKey.keyId, preKey);
+  }
+
+  async removePreKey(keyId: number): Promise<void> {
+    this.preKeys.delete(keyId);
+  }
+
+  async loadPreKeyRange(): Promise<PreKeyRange | undefined> {
+    return this.preKeyRange;
+  }
+
+  async storePreKeyRange(range: PreKeyRange): Promise<void> {
+    this.preKeyRange = range;
+  }
+
+  async loadSignedPreKey(keyId: number): Promise<SignedPreKey | undefined> {
+    return this.signedPreKeys.get(keyId);
+  }
+
+  async storeSignedPreKey(signedPreKey: SignedPreKey): Promise<void> {
+    this.signedPreKeys.set(signedPreKey.keyId, signedPreKey);
+  }
+
+  async loadSession(address: string): Promise<SessionRecord | undefined> {
+    return this.sessions.get(address);
+  }
+
+  async storeSession(address: string, record: SessionRecord): Promise<void> {
+    this.sessions.set(address, record);
+  }
+
+  async removeSession(address: string): Promise<void> {
+    this.sessions.delete(address);
+  }
+}
+
+/**
+ * Sender key store kept in memory (lost when the process exits)
+ */
+export class InMemorySenderKeyStore implements SenderKeyStore {
+  private senderKeys: Map<string, SenderKeyRecord> = new Map();
+
+  async loadSenderKey(name: string): Promise<SenderKeyRecord | undefined> {
+    return this.senderKeys.get(name);
+  }
+
+  async storeSenderKey(name: string, record: SenderKeyRecord): Promise<void> {
+    this.senderKeys.set(name, record);
+  }
+
+  async removeSenderKey(name: string): Promise<void> {
+    this.senderKeys.delete(name);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Error Classes
+ *
+ * Typed errors raised by the WhatsApp client so callers can tell failures apart.
+ */
+
+import { BinaryNode } from '../binary/types';
+
+/**
+ * Base class for all library errors
+ */
+export class WhatsAppError extends Error {
+  code: string;
+
+  /**
+   * Create a new error
+   * @param {String} message Error message
+   * @param {String} code Machine readable error code
+   */
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+  }
+}
+
+/**
+ * Raised when a request does not get a response in time
+ */
+export class TimeoutError extends WhatsAppError {
+  constructor(message: string) {
+    super(message, 'TIMEOUT');
+  }
+}
+
+/**
+ * Raised when the server answers a query with an error
+ */
+export class QueryError extends WhatsAppError {
+  status: number;
+  node: BinaryNode;
+
+  /**
+   * Create a new query error
+   * @param {String} message Error message
+   * @param {Number} status Status code returned by the server
+   * @param {BinaryNode} node Error response node
+   */
+  constructor(message: string, status: number, node: BinaryNode) {
+    super(message, 'QUERY_FAILED');
+    this.status = status;
+    this.node = node;
+  }
+}
+
+/**
+ * Raised when pending requests are dropped because the connection closed
+ */
+export class ConnectionClosedError extends WhatsAppError {
+  constructor(message: string = 'Connection closed') {
+    super(message, 'CONNECTION_CLOSED');
+  }
+}
+
+/**
+ * Raised when a frame violates the wire protocol (bad MAC, truncated data, ...)
+ */
+export class ProtocolError extends WhatsAppError {
+  constructor(message: string, code: string = 'PROTOCOL_ERROR') {
+    super(message, code);
+  }
+}
+
+/**
+ * Raised by the Signal session layer (bad MAC, unknown keys, untrusted identity, ...)
+ */
+export class SignalError extends WhatsAppError {
+  constructor(message: string, code: string = 'SIGNAL_ERROR') {
+    super(message, code);
+  }
+}
+
+/**
+ * Raised when linking or logging in fails (bad pairing code, expired pairing, ...)
+ */
+export class AuthenticationError extends WhatsAppError {
+  constructor(message: string, code: string = 'AUTH_FAILED') {
+    super(message, code);
+  }
+}
+
+/**
+ * Raised when a stored session cannot be read (wrong passphrase, unsupported format, ...)
+ */
+export class SessionError extends WhatsAppError {
+  constructor(message: string, code: string = 'SESSION_ERROR') {
+    super(message, code);
+  }
+}
+
+/**
+ * Raised when another process holds the lock on a session
+ */
+export class SessionLockedError extends SessionError {
+  owner: { pid: number; host: string; heartbeatAt: number } | null;
+
+  /**
+   * Create a new session locked error
+   * @param {String} message Error message
+   * @param {Object} owner Process holding the lock, if known
+   */
+  constructor(message: string, owner: { pid: number; host: string; heartbeatAt: number } | null = null) {
+    super(message, 'SESSION_LOCKED');
+    this.owner = owner;
+  }
+}
+
+/**
+ * Raised when the connection is asked to move to a state it cannot reach from its current one
+ */
+export class StateTransitionError extends WhatsAppError {
+  from: string;
+  to: string;
+
+  /**
+   * Create a new state transition error
+   * @param {String} from Current state
+   * @param {String} to Requested state
+   */
+  constructor(from: string, to: string) {
+    super(`Invalid connection state transition: ${from} -> ${to}`, 'INVALID_STATE_TRANSITION');
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Raised when a connection cannot be tunneled through the configured proxy
+ */
+export class ProxyError extends WhatsAppError {
+  constructor(message: string, code: string = 'PROXY_ERROR') {
+    super(message, code);
+  }
+}
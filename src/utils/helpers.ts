@@ -100,4 +100,32 @@ export function delay(ms: number): Promise<void> {
  */
 export function isEmptyObject(obj: Record<string, any>): boolean {
   return obj && Object.keys(obj).length === 0 && Object.getPrototypeOf(obj) === Object.prototype;
-}
\ No newline at end of file
+}
+
+/**
+ * JSON replacer that stores Buffers as base64 strings
+ * @param {String} key Property name
+ * @param {any} value Property value
+ * @returns {any} Serializable value
+ */
+export function bufferReplacer(key: string, value: any): any {
+  // Buffer.toJSON runs before the replacer, so Buffers arrive as { type, data: number[] }
+  if (value && value.type === 'Buffer' && Array.isArray(value.data)) {
+    return { type: 'Buffer', data: Buffer.from(value.data).toString('base64') };
+  }
+  return value;
+}
+
+/**
+ * JSON reviver that restores Buffers written by bufferReplacer
+ * @param {String} key Property name
+ * @param {any} value Property value
+ * @returns {any} Revived value
+ */
+export function bufferReviver(key: string, value: any): any {
+  if (value && value.type === 'Buffer') {
+    if (typeof value.data === 'string') return Buffer.from(value.data, 'base64');
+    if (Array.isArray(value.data)) return Buffer.from(value.data);
+  }
+  return value;
+}
@@ -8,6 +8,8 @@
 import { EventEmitter } from 'events';
 import * as WebSocket from 'ws';
 import { CryptoManager } from '../crypto';
+import { ReconnectPolicy, ReconnectPolicyOptions } from '../connection';
+import { ProxyOptions, createProxyAgent } from '../proxy';
 
 // WebSocket connection states
 export enum ConnectionState {
@@ -26,7 +28,9 @@ export interface WebSocketClientOptions {
   origin?: string;
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
+  reconnectPolicy?: ReconnectPolicyOptions;
   keepAliveInterval?: number;
+  proxy?: string | ProxyOptions;
 }
 
 /**
@@ -36,7 +40,7 @@ export class WebSocketClient extends EventEmitter {
   private options: WebSocketClientOptions;
   private ws: WebSocket | null = null;
   private state: ConnectionState = ConnectionState.CLOSED;
-  private reconnectAttempts: number = 0;
+  private reconnectPolicy: ReconnectPolicy;
   private reconnectTimer: NodeJS.Timeout | null = null;
   private keepAliveTimer: NodeJS.Timeout | null = null;
   private credentials: any = {};
@@ -55,8 +59,15 @@ export class WebSocketClient extends EventEmitter {
       origin: options.origin || 'https://web.whatsapp.com',
       reconnectInterval: options.reconnectInterval || 5000,
       maxReconnectAttempts: options.maxReconnectAttempts || 10,
-      keepAliveInterval: options.keepAliveInterval || 30000
+      keepAliveInterval: options.keepAliveInterval || 30000,
+      proxy: options.proxy
     };
+    
+    this.reconnectPolicy = new ReconnectPolicy({
+      baseDelay: this.options.reconnectInterval,
+      maxAttempts: this.options.maxReconnectAttempts,
+      ...options.reconnectPolicy
+    });
   }
   
   /**
@@ -69,7 +80,7 @@ export class WebSocketClient extends EventEmitter {
     this.credentials = credentials;
     
     // Reset reconnect attempts
-    this.reconnectAttempts = 0;
+    this.reconnectPolicy.reset();
     
     return this._connect();
   }
@@ -97,7 +108,8 @@ export class WebSocketClient extends EventEmitter {
         headers: {
           'User-Agent': this.options.userAgent!,
           'Origin': this.options.origin!
-        }
+        },
+        agent: this.options.proxy ? createProxyAgent(this.options.proxy, this.options.url!) : undefined
       } as WebSocket.ClientOptions);
       
       // Set up event handlers
@@ -231,20 +243,20 @@ export class WebSocketClient extends EventEmitter {
       this.reconnectTimer = null;
     }
     
-    if (this.reconnectAttempts >= (this.options.maxReconnectAttempts || 10)) {
+    const decision = this.reconnectPolicy.next();
+    if (!decision) {
       this.emit('reconnect_failed');
       return;
     }
     
-    this.reconnectAttempts++;
-    
-    this.emit('reconnecting', this.reconnectAttempts);
+    this.emit('reconnect_scheduled', decision);
+    this.emit('reconnecting', decision.attempt, decision.delay);
     
     this.reconnectTimer = setTimeout(() => {
       this._connect().catch((error) => {
         this.emit('error', error);
       });
-    }, this.options.reconnectInterval);
+    }, decision.delay);
   }
   
   /**
@@ -309,9 +321,11 @@ export class WebSocketClient extends EventEmitter {
             this.credentials.serverPublicKey = message.data.serverPublicKey;
           }
           
+          this.reconnectPolicy.recordSuccess();
           this.emit('authenticated', message.data);
           this._setState(ConnectionState.READY);
         } else {
+          this.reconnectPolicy.recordAuthFailure();
           this.emit('auth_failure', message.data);
         }
       } else if (message.type === 'encrypted') {
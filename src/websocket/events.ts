@@ -10,7 +10,10 @@ export enum WhatsAppEvents {
   CONNECTED = 'connected',
   DISCONNECTED = 'disconnected',
   RECONNECTING = 'reconnecting',
+  RECONNECT_SCHEDULED = 'reconnect_scheduled',
   RECONNECT_FAILED = 'reconnect_failed',
+  CONNECTION_DEGRADED = 'connection.degraded',
+  RATE_LIMITED = 'rate_limit.throttled',
   
   // Authentication events
   QR = 'qr',
@@ -22,10 +25,12 @@ export enum WhatsAppEvents {
   AUTHENTICATED = 'authenticated',
   AUTH_FAILURE = 'auth_failure',
   LOGOUT = 'logout',
+  LOGGED_OUT = 'logged_out',
   
   // Message events
   MESSAGE = 'message',
   MESSAGE_ACK = 'message_ack',
+  MESSAGE_FAILED = 'message.failed',
   MESSAGE_REVOKE = 'message_revoke',
   
   // Chat events
@@ -0,0 +1,91 @@
+/**
+ * Events of managed accounts re-emitted on the AccountManager
+ */
+
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccountManager } from '../src/accounts';
+import { MemoryAuthStateStore } from '../src/auth-state';
+import { silenceConsole, startServer, clientConfig, once, cleanup } from './helpers';
+
+const ALICE = '15550000001@s.whatsapp.net';
+
+/**
+ * Wait for an account event and collect its (accountId, ...args) arguments
+ */
+function onceAccount(manager: AccountManager, event: string, timeout: number = 5000): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      manager.off(event, listener);
+      reject(new Error(`Timed out waiting for "${event}"`));
+    }, timeout);
+
+    const listener = (...args: any[]) => {
+      clearTimeout(timer);
+      resolve(args);
+    };
+
+    manager.once(event, listener);
+  });
+}
+
+describe('account manager', () => {
+  let manager: AccountManager;
+  let dir: string;
+
+  before(async () => {
+    silenceConsole();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wa-accounts-'));
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  afterEach(async () => {
+    await manager.shutdown();
+    await cleanup();
+  });
+
+  it('re-emits reconnection events with the account ID', async () => {
+    const { server, url } = await startServer();
+    manager = new AccountManager({ baseDir: dir, handleSignals: false, storeFactory: () => new MemoryAuthStateStore() });
+
+    const client = manager.create('alice', clientConfig(url, { auth: { autoSave: true } }));
+    client.once('qr', (qr: string) => server.scan(qr, { wid: ALICE }));
+    const ready = once(client, 'ready');
+    await manager.start('alice');
+    await ready;
+
+    const scheduled = onceAccount(manager, 'reconnect_scheduled');
+    const reconnecting = onceAccount(manager, 'reconnecting');
+    server.dropConnections();
+
+    const [scheduledId, details] = await scheduled;
+    assert.equal(scheduledId, 'alice');
+    assert.equal(details.attempt, 1);
+    assert.deepEqual((await reconnecting).slice(0, 1), ['alice']);
+    await once(client, 'ready');
+  });
+
+  it('re-emits a degraded connection with the account ID', async () => {
+    // Pings go unanswered: the ack is no pong for the pending ping
+    const { server, url } = await startServer({
+      queryHandler: node => node.tag === 'admin' && node.attrs.type === 'test'
+        ? { tag: 'ack', attrs: {}, content: null }
+        : null
+    });
+    manager = new AccountManager({ baseDir: dir, handleSignals: false, storeFactory: () => new MemoryAuthStateStore() });
+
+    const client = manager.create('alice', clientConfig(url, { connection: { heartbeatInterval: 50, heartbeatTolerance: 3 } }));
+    client.once('qr', (qr: string) => server.scan(qr, { wid: ALICE }));
+    const degraded = onceAccount(manager, 'connection.degraded');
+    await manager.start('alice');
+
+    const [accountId, details] = await degraded;
+    assert.equal(accountId, 'alice');
+    assert.equal(details.missedPongs, 1);
+    assert.equal(details.tolerance, 3);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Credential backups of the file stores: removed on clear, re-encrypted on rekey
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileAuthStateStore, SingleFileAuthStateStore, SessionState, rekeySession } from '../src/auth-state';
+import { readJson, writeJson } from '../src/auth-state/file-store';
+import { PassphraseCipher } from '../src/auth-state/encryption';
+import { SessionError } from '../src/utils/errors';
+import { silenceConsole } from './helpers';
+
+const CREDENTIALS = { clientId: 'client', wid: '15550000001@s.whatsapp.net' } as unknown as SessionState;
+
+describe('auth state backups', () => {
+  let dir: string;
+
+  before(async () => {
+    silenceConsole();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wa-auth-state-'));
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('deletes credential backups when a file store is cleared', async () => {
+    const sessionDir = path.join(dir, 'files');
+    const store = new FileAuthStateStore(sessionDir);
+    await store.setCredentials(CREDENTIALS);
+    await store.backupCredentials('v1');
+
+    await store.clear();
+
+    assert.deepEqual(await fs.readdir(sessionDir), []);
+  });
+
+  it('deletes credential backups when a single-file store is cleared', async () => {
+    const file = path.join(dir, 'single', 'session.db.json');
+    const store = new SingleFileAuthStateStore(file);
+    await store.setCredentials(CREDENTIALS);
+    await store.backupCredentials('v1');
+
+    await store.clear();
+
+    assert.deepEqual(await fs.readdir(path.dirname(file)), ['session.db.json']);
+  });
+
+  it('re-encrypts backups on rekey and deletes the ones it cannot open', async () => {
+    const sessionDir = path.join(dir, 'rekey');
+    const store = new FileAuthStateStore(sessionDir, { passphrase: 'old' });
+    await store.setCredentials(CREDENTIALS);
+    await store.backupCredentials('v1');
+    await writeJson(path.join(sessionDir, 'session.json.v0.bak'), CREDENTIALS, new PassphraseCipher('older'));
+
+    assert.equal(await rekeySession(sessionDir, { oldPassphrase: 'old', newPassphrase: 'new' }), 2);
+
+    assert.deepEqual((await fs.readdir(sessionDir)).sort(), ['session.json', 'session.json.v1.bak']);
+    const backup = path.join(sessionDir, 'session.json.v1.bak');
+    assert.deepEqual(await readJson(backup, new PassphraseCipher('new')), CREDENTIALS);
+    await assert.rejects(readJson(backup, new PassphraseCipher('old')), SessionError);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Pairing code requests through WhatsAppClient
+ */
+
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { WhatsAppClient, ClientState } from '../src/client';
+import { MemoryAuthStateStore } from '../src/auth-state';
+import { BinaryNode } from '../src/binary';
+import { PAIRING_CODE_ALPHABET, PAIRING_CODE_LENGTH } from '../src/auth/pairing-code';
+import { AuthenticationError } from '../src/utils/errors';
+import { silenceConsole } from './helpers';
+
+describe('WhatsAppClient', () => {
+  before(silenceConsole);
+
+  it('sends the pairing request and returns the code from the response', async () => {
+    const sent: BinaryNode[] = [];
+    const client = new WhatsAppClient({
+      authStore: new MemoryAuthStateStore(),
+      query: async (node) => {
+        sent.push(node);
+        return { tag: 'iq', attrs: { type: 'result' }, content: [{
+          tag: 'link_code_companion_reg',
+          attrs: {},
+          content: [{ tag: 'link_code_pairing_ref', attrs: {}, content: Buffer.from('ref') }]
+        }] };
+      }
+    });
+
+    await client.initialize();
+    assert.equal(client.getState(), ClientState.AUTHENTICATING);
+
+    const code = await client.requestPairingCode('+15550000001');
+    await client.logout();
+
+    assert.equal(sent.length, 1);
+    assert.equal((sent[0].content as BinaryNode[])[0].tag, 'link_code_companion_reg');
+    assert.equal(code.length, PAIRING_CODE_LENGTH);
+    assert.ok([...code].every(char => PAIRING_CODE_ALPHABET.includes(char)));
+  });
+
+  it('refuses a pairing request without a way to reach the server', async () => {
+    const client = new WhatsAppClient({ authStore: new MemoryAuthStateStore() });
+    client.on('error', () => undefined);
+
+    await client.initialize();
+    await assert.rejects(
+      client.requestPairingCode('+15550000001'),
+      (error: Error) => error instanceof AuthenticationError && error.code === 'NOT_CONNECTED'
+    );
+    await client.logout();
+  });
+});
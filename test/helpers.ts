@@ -0,0 +1,141 @@
+/**
+ * Test Helpers
+ *
+ * Mock server and client setup shared by the integration tests. Clients
+ * point at a local MockWhatsAppServer and trust its certificate, retry
+ * quickly and leave process signals alone; everything started here is
+ * stopped by cleanup().
+ */
+
+import { EventEmitter } from 'events';
+import { mock } from 'node:test';
+import { WhatsAppCore, WhatsAppConfig } from '../src/whatsapp-core';
+import { MockWhatsAppServer, MockServerOptions } from '../src/mock';
+import { NoiseServerTrust } from '../src/noise';
+
+type ClientOptions = Partial<Omit<WhatsAppConfig, 'auth' | 'connection' | 'features'>> & {
+  auth?: Partial<WhatsAppConfig['auth']>;
+  connection?: Partial<WhatsAppConfig['connection']>;
+  features?: Partial<WhatsAppConfig['features']>;
+};
+
+const servers: MockWhatsAppServer[] = [];
+const clients: WhatsAppCore[] = [];
+const serverTrust = new Map<string, NoiseServerTrust>();
+
+/**
+ * Mute the library's console output for the rest of the test file
+ */
+export function silenceConsole(): void {
+  for (const method of ['log', 'warn', 'error'] as const) {
+    mock.method(console, method, () => undefined);
+  }
+}
+
+/**
+ * Start a mock server, stopped by cleanup()
+ * @param {MockServerOptions} options Server options
+ * @returns {Promise<Object>} Server and its URL
+ */
+export async function startServer(options: MockServerOptions = {}): Promise<{ server: MockWhatsAppServer; url: string }> {
+  const server = new MockWhatsAppServer(options);
+  servers.push(server);
+
+  const url = await server.start();
+  serverTrust.set(url, server.getServerTrust());
+  return { server, url };
+}
+
+/**
+ * Build the configuration of a client for a mock server
+ * @param {String} url Mock server URL
+ * @param {ClientOptions} options Config overrides
+ * @returns {WhatsAppConfig} Client configuration
+ */
+export function clientConfig(url: string, options: ClientOptions = {}): WhatsAppConfig {
+  return {
+    ...options,
+    auth: { qrAuth: true, pairingCode: false, autoSave: false, ...options.auth },
+    connection: {
+      retryCount: 5,
+      retryDelay: 50,
+      keepAlive: true,
+      timeout: 5000,
+      url,
+      serverTrust: serverTrust.get(url),
+      reconnect: { baseDelay: 20, maxDelay: 100 },
+      ...options.connection
+    },
+    features: { messaging: true, media: true, groups: true, status: true, webhooks: false, ...options.features },
+    qr: { terminal: false, ...options.qr },
+    handleSignals: false
+  };
+}
+
+/**
+ * Create a client for a mock server, disconnected by cleanup()
+ * @param {String} url Mock server URL
+ * @param {ClientOptions} options Config overrides
+ * @returns {WhatsAppCore} Client (not connected yet)
+ */
+export function createClient(url: string, options: ClientOptions = {}): WhatsAppCore {
+  const client = new WhatsAppCore(clientConfig(url, options));
+
+  clients.push(client);
+  return client;
+}
+
+/**
+ * Connect a client and log it in by scanning its QR code on the mock server
+ * @param {MockWhatsAppServer} server Mock server
+ * @param {WhatsAppCore} client Client created for the server
+ * @param {String} wid Account to log in as
+ * @returns {Promise<WhatsAppCore>} The client, once ready
+ */
+export async function login(server: MockWhatsAppServer, client: WhatsAppCore, wid?: string): Promise<WhatsAppCore> {
+  client.once('qr', (qr: string) => server.scan(qr, { wid }));
+
+  const ready = once(client, 'ready');
+  await client.connect();
+  await ready;
+
+  return client;
+}
+
+/**
+ * Wait for an event
+ * @param {EventEmitter} emitter Emitter
+ * @param {String} event Event name
+ * @param {Number} timeout Time (ms) after which the wait fails
+ * @returns {Promise<any>} First argument of the event
+ */
+export function once<T = any>(emitter: EventEmitter, event: string, timeout: number = 5000): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      emitter.off(event, listener);
+      reject(new Error(`Timed out waiting for "${event}"`));
+    }, timeout);
+
+    const listener = (value: T) => {
+      clearTimeout(timer);
+      resolve(value);
+    };
+
+    emitter.once(event, listener);
+  });
+}
+
+/**
+ * Disconnect every client and stop every server started by the helpers
+ * @returns {Promise<void>}
+ */
+export async function cleanup(): Promise<void> {
+  for (const client of clients.splice(0)) {
+    if (client.state !== 'closed') {
+      client.disconnect();
+    }
+  }
+
+  serverTrust.clear();
+  await Promise.all(servers.splice(0).map(server => server.stop()));
+}
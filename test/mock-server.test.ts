@@ -0,0 +1,315 @@
+/**
+ * Connection, authentication, messaging and reconnection against the mock server
+ */
+
+import { describe, it, before, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WhatsAppCore } from '../src/whatsapp-core';
+import { MemoryAuthStateStore, SESSION_LOCK_FILE } from '../src/auth-state';
+import { BinaryNode } from '../src/binary';
+import { MockConnection } from '../src/mock';
+import { ConnectionStateChange } from '../src/connection';
+import { silenceConsole, startServer, createClient, login, once, cleanup } from './helpers';
+
+const ALICE = '15550000001@s.whatsapp.net';
+const BOB = '15550000002@s.whatsapp.net';
+
+describe('mock server', () => {
+  before(silenceConsole);
+  afterEach(cleanup);
+
+  describe('connection and authentication', () => {
+    it('logs in by QR code and fetches chats', async () => {
+      const { server, url } = await startServer();
+      server.injectChat({ id: '123-456@g.us', name: 'Team', participants: [ALICE] });
+
+      const client = createClient(url);
+      const authenticated = once(client, 'auth.success');
+      await login(server, client, ALICE);
+
+      assert.equal((await authenticated).user.id, ALICE);
+      assert.equal(client.state, 'ready');
+      const chats = await client.getChats();
+      assert.equal(chats.find(chat => chat.id === '123-456@g.us')?.name, 'Team');
+    });
+
+    it('restores a saved session without a QR code', async () => {
+      const { server, url } = await startServer();
+      const store = new MemoryAuthStateStore();
+
+      const first = createClient(url, { auth: { store, autoSave: true } });
+      await login(server, first, ALICE);
+      first.disconnect();
+
+      const second = createClient(url, { auth: { store, autoSave: true } });
+      second.on('qr', () => assert.fail('a restored session must not ask for a QR code'));
+      const ready = once(second, 'ready');
+      await second.connect();
+      await ready;
+
+      assert.equal(second.getStatus().user?.id, ALICE);
+    });
+
+    it('logs out when the device is unlinked from the phone', async () => {
+      const { server, url } = await startServer();
+      const store = new MemoryAuthStateStore();
+
+      const client = createClient(url, { auth: { store, autoSave: true } });
+      await login(server, client, ALICE);
+
+      const loggedOut = once(client, 'logged_out');
+      server.unlinkDevice(ALICE);
+
+      assert.equal((await loggedOut).reason, 'device_removed');
+      assert.equal(await store.getCredentials(), null);
+    });
+  });
+
+  describe('messaging', () => {
+    it('relays a message between two clients and reports it sent', async () => {
+      const { server, url } = await startServer();
+      const alice = await login(server, createClient(url), ALICE);
+      const bob = await login(server, createClient(url), BOB);
+
+      const received = once(bob, 'message.new');
+      const sent = once(alice, 'message.update');
+      const message = await alice.sendMessage(BOB, 'Hi Bob!');
+
+      const incoming = await received;
+      assert.equal(incoming.sender, ALICE);
+      assert.deepEqual(incoming.content, { text: 'Hi Bob!' });
+      assert.equal((await sent).id, message.id);
+      assert.equal(message.status, 'sent');
+    });
+
+    it('emits messages and presence pushed by the server', async () => {
+      const { server, url } = await startServer();
+      const client = await login(server, createClient(url), ALICE);
+
+      const received = once(client, 'message.new');
+      server.injectMessage({ from: BOB, type: 'text', content: { text: 'ping' } });
+      assert.deepEqual((await received).content, { text: 'ping' });
+
+      const presence = once(client, 'presence.update');
+      server.injectPresence({ from: BOB, type: 'available' });
+      assert.deepEqual(await presence, { userId: BOB, isOnline: true, lastSeen: undefined });
+    });
+
+    it('does not resolve a pending query with a pushed frame carrying its tag', async () => {
+      let pushed = 0;
+      let lastTag = '';
+      const { server, url } = await startServer({
+        queryHandler: (node, connection) => {
+          if (node.tag !== 'query' || node.attrs.type !== 'messages') return null;
+
+          // A push reusing the query's tag arrives before the real response
+          connection.send({ tag: 'action', attrs: { add: 'relay' }, content: [{
+            tag: 'presence', attrs: { from: BOB, type: 'available' }, content: null
+          }] }, lastTag);
+          pushed++;
+
+          return { tag: 'response', attrs: { type: 'messages' }, content: [] };
+        }
+      });
+
+      server.on('node', (node: BinaryNode, tag: string) => { lastTag = tag; });
+
+      const client = await login(server, createClient(url), ALICE);
+      const presence = once(client, 'presence.update');
+
+      assert.deepEqual(await client.getMessages(BOB), []);
+      assert.equal(pushed, 1);
+      assert.equal((await presence).userId, BOB);
+    });
+  });
+
+  describe('end-to-end encryption', () => {
+    const e2e = { features: { e2e: true }, outbox: { retryDelay: 50, maxRetryDelay: 200 } };
+
+    /**
+     * Collect the texts a client receives, waiting for a number of them
+     */
+    function receiveTexts(client: WhatsAppCore, count: number): Promise<string[]> {
+      const texts: string[] = [];
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`Received only ${texts.length} of ${count} messages`)), 5000);
+        client.on('message.new', message => {
+          texts.push(message.content.text);
+          if (texts.length === count) {
+            clearTimeout(timer);
+            resolve(texts);
+          }
+        });
+        client.on('message.decrypt_failed', event => reject(event.error));
+      });
+    }
+
+    it('sets up sessions from pre-keys and exchanges messages both ways, also out of order', async () => {
+      let held: BinaryNode | null = null;
+      const types: string[] = [];
+      const { server, url } = await startServer({
+        queryHandler: (node) => {
+          const message = node.tag === 'action' && Array.isArray(node.content) ? node.content[0] : undefined;
+          if (message?.tag !== 'message' || message.attrs.to !== BOB) return null;
+
+          const enc = (message.content as BinaryNode[]).find(child => child.tag === 'enc')!;
+          types.push(enc.attrs.type);
+
+          // Hold Alice's third message back until after her fourth
+          if (types.length === 3) {
+            held = message;
+            return { tag: 'response', attrs: { status: '200' }, content: null };
+          }
+          return null;
+        }
+      });
+      const alice = await login(server, createClient(url, e2e), ALICE);
+      const bob = await login(server, createClient(url, e2e), BOB);
+
+      const atBob = receiveTexts(bob, 4);
+      for (const text of ['one', 'two', 'three', 'four']) {
+        await alice.sendMessage(BOB, text);
+      }
+      await once(bob, 'message.new');
+
+      const { to, ...attrs } = held!.attrs;
+      server.inject({ tag: 'action', attrs: { add: 'relay' }, content: [{ ...held!, attrs: { ...attrs, from: ALICE } }] }, BOB);
+
+      assert.deepEqual(await atBob, ['one', 'two', 'four', 'three']);
+      assert.equal(types[0], 'pkmsg');
+
+      const atAlice = receiveTexts(alice, 3);
+      for (const text of ['five', 'six', 'seven']) {
+        await bob.sendMessage(ALICE, text);
+      }
+      assert.deepEqual(await atAlice, ['five', 'six', 'seven']);
+    });
+
+    it('sends group messages with sender keys', async () => {
+      const types: string[] = [];
+      const { server, url } = await startServer();
+      server.on('node', (node: BinaryNode) => {
+        const message = node.tag === 'action' && Array.isArray(node.content) ? node.content[0] : undefined;
+        if (message?.tag === 'message' && message.attrs.to?.endsWith('@g.us')) {
+          types.push(...(message.content as BinaryNode[]).filter(child => child.tag === 'enc').map(child => child.attrs.type));
+        }
+      });
+
+      const alice = await login(server, createClient(url, e2e), ALICE);
+      const bob = await login(server, createClient(url, e2e), BOB);
+      const group = await alice.createGroup('Team', [BOB]);
+
+      const atBob = receiveTexts(bob, 2);
+      await alice.sendMessage(group.id, 'hello team');
+      await alice.sendMessage(group.id, 'second');
+
+      assert.deepEqual(await atBob, ['hello team', 'second']);
+      assert.ok(types.length >= 2 && types.every(type => type === 'skmsg'));
+    });
+  });
+
+  describe('malformed input', () => {
+    it('survives an undecodable frame and a chat without an ID without an error listener', async () => {
+      const { server, url } = await startServer();
+      const connected = once<MockConnection>(server, 'connection');
+      const client = await login(server, createClient(url), ALICE);
+      const connection = await connected;
+
+      connection.sendPayload(Buffer.from([0xF8, 0x09, 0xFF]));
+      server.inject({ tag: 'action', attrs: { add: 'relay' }, content: [{ tag: 'chat', attrs: { name: 'No ID' }, content: null }] });
+
+      // Later traffic is still processed
+      const presence = once(client, 'presence.update');
+      server.injectPresence({ from: BOB, type: 'available' });
+      assert.equal((await presence).userId, BOB);
+      assert.equal(client.state, 'ready');
+      assert.equal(client.getStatus().chats, 0);
+    });
+  });
+
+  describe('reconnection', () => {
+    it('reconnects and restores the session after the network drops', async () => {
+      const { server, url } = await startServer();
+      const client = await login(server, createClient(url, { auth: { store: new MemoryAuthStateStore(), autoSave: true } }), ALICE);
+
+      const scheduled = once(client, 'reconnect_scheduled');
+      const ready = once(client, 'ready');
+      server.dropConnections();
+
+      assert.equal((await scheduled).attempt, 1);
+      await ready;
+      assert.equal(client.getStatus().user?.id, ALICE);
+    });
+
+    it('survives the socket dropping during the initial sync without an error listener', async () => {
+      let contactQueries = 0;
+      const { server, url } = await startServer({
+        queryHandler: (node, connection) => {
+          if (node.tag === 'query' && node.attrs.type === 'contacts' && contactQueries++ === 0) {
+            connection.socket.terminate();
+          }
+          return null;
+        }
+      });
+
+      const client = createClient(url, { auth: { store: new MemoryAuthStateStore(), autoSave: true } });
+      await login(server, client, ALICE);
+
+      assert.equal(contactQueries, 2);
+      assert.equal(client.listenerCount('error'), 0);
+    });
+
+    it('retries a failed connect without an error listener', async () => {
+      const { server, url } = await startServer();
+      server.once('connection', (connection: MockConnection) => connection.socket.terminate());
+
+      const client = createClient(url, { auth: { store: new MemoryAuthStateStore(), autoSave: true } });
+      const scheduled = once(client, 'reconnect_scheduled');
+      await login(server, client, ALICE);
+
+      assert.equal((await scheduled).attempt, 1);
+      assert.equal(client.listenerCount('error'), 0);
+    });
+  });
+
+  describe('session lock', () => {
+    it('disconnects without an error listener when another process takes the lock over', async () => {
+      const sessionPath = await fs.mkdtemp(path.join(os.tmpdir(), 'wa-lock-'));
+
+      try {
+        const { server, url } = await startServer();
+        const client = createClient(url, { auth: { sessionPath, lock: { heartbeatInterval: 20 } } });
+        await login(server, client, ALICE);
+
+        const closed = (async () => {
+          let change: ConnectionStateChange;
+          do {
+            change = await once(client, 'connection.update');
+          } while (change.state !== 'closed');
+          return change;
+        })();
+
+        // The other process keeps claiming the lock, as its own heartbeat would:
+        // a single write can lose the race with a heartbeat already in flight
+        const acquiredAt = Date.now();
+        const stealing = setInterval(() => {
+          fs.writeFile(path.join(sessionPath, SESSION_LOCK_FILE), JSON.stringify({
+            pid: process.pid + 1, host: os.hostname(), token: 'other', acquiredAt, heartbeatAt: Date.now()
+          })).catch(() => undefined);
+        }, 20);
+
+        try {
+          assert.equal((await closed).reason, 'lock_lost');
+          assert.equal(client.state, 'closed');
+        } finally {
+          clearInterval(stealing);
+        }
+      } finally {
+        await fs.rm(sessionPath, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Noise XX handshake between an initiator and a local responder, and the
+ * server certificate checks the initiator makes before finishing it
+ */
+
+import { describe, it, before, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { KeyPair, generateCurveKeyPair } from '../src/crypto/curve';
+import {
+  NoiseSession,
+  NoiseServerTrust,
+  generateCertificateKeyPair,
+  createCertificateChain,
+  verifyServerIdentity
+} from '../src/noise';
+import { ProtocolError } from '../src/utils/errors';
+import { silenceConsole, startServer, createClient, login, cleanup } from './helpers';
+
+/**
+ * Connect an initiator and a responder through an in-memory pipe
+ */
+function createPair(serverKeyPair: KeyPair, certificate: Buffer, trust: NoiseServerTrust) {
+  const clientKeyPair = generateCurveKeyPair();
+  const handshakes: any[] = [];
+
+  const client: NoiseSession = new NoiseSession({
+    role: 'initiator',
+    send: (data) => setImmediate(() => server.receive(data)),
+    staticKeyPair: clientKeyPair,
+    trust
+  });
+  const server: NoiseSession = new NoiseSession({
+    role: 'responder',
+    send: (data) => setImmediate(() => client.receive(data)),
+    staticKeyPair: serverKeyPair,
+    payload: certificate
+  });
+  server.on('handshake', handshake => handshakes.push(handshake));
+
+  return { client, server, clientKeyPair, handshakes };
+}
+
+/**
+ * Whether an error reports an untrusted server
+ */
+function isUntrusted(error: Error): boolean {
+  return error instanceof ProtocolError && error.code === 'NOISE_SERVER_UNTRUSTED';
+}
+
+describe('noise handshake', () => {
+  const rootKeyPair = generateCertificateKeyPair();
+  const serverKeyPair = generateCurveKeyPair();
+  const certificate = createCertificateChain(rootKeyPair, serverKeyPair.publicKey);
+
+  it('completes against a certified responder and exchanges frames both ways', async () => {
+    const { client, server, clientKeyPair, handshakes } = createPair(serverKeyPair, certificate, { rootKey: rootKeyPair.publicKey });
+
+    await client.start(1000);
+    await new Promise(resolve => setImmediate(resolve));
+
+    assert.equal(handshakes.length, 1);
+    assert.deepEqual(handshakes[0].remoteStaticKey, clientKeyPair.publicKey);
+
+    const atServer = new Promise<Buffer>(resolve => server.once('frame', resolve));
+    client.send(Buffer.from('ping'));
+    assert.equal((await atServer).toString(), 'ping');
+
+    const atClient = new Promise<Buffer>(resolve => client.once('frame', resolve));
+    server.send(Buffer.from('pong'));
+    assert.equal((await atClient).toString(), 'pong');
+  });
+
+  it('rejects a certificate chain from another root before revealing the client key', async () => {
+    const { client, handshakes } = createPair(serverKeyPair, certificate, { rootKey: generateCertificateKeyPair().publicKey });
+
+    await assert.rejects(client.start(1000), isUntrusted);
+    await new Promise(resolve => setImmediate(resolve));
+
+    assert.equal(client.isEstablished(), false);
+    assert.equal(handshakes.length, 0);
+  });
+
+  it('rejects a server without a certificate when WhatsApp\'s root is trusted', async () => {
+    const { client } = createPair(serverKeyPair, Buffer.alloc(0), {});
+
+    await assert.rejects(client.start(1000), isUntrusted);
+  });
+
+  it('accepts a pinned static key and rejects any other', async () => {
+    const pinned = createPair(serverKeyPair, Buffer.alloc(0), { staticKey: serverKeyPair.publicKey });
+    await pinned.client.start(1000);
+
+    const other = createPair(generateCurveKeyPair(), Buffer.alloc(0), { staticKey: serverKeyPair.publicKey });
+    await assert.rejects(other.client.start(1000), isUntrusted);
+  });
+
+  it('rejects tampered, expired and misdirected certificates', () => {
+    const trust = { rootKey: rootKeyPair.publicKey };
+    verifyServerIdentity(trust, serverKeyPair.publicKey, certificate);
+
+    for (let i = 0; i < certificate.length; i++) {
+      const tampered = Buffer.from(certificate);
+      tampered[i] ^= 0x80;
+      assert.throws(() => verifyServerIdentity(trust, serverKeyPair.publicKey, tampered), isUntrusted);
+    }
+
+    const expired = Date.now() + 2 * 24 * 60 * 60 * 1000;
+    assert.throws(() => verifyServerIdentity(trust, serverKeyPair.publicKey, certificate, expired), isUntrusted);
+    assert.throws(() => verifyServerIdentity(trust, generateCurveKeyPair().publicKey, certificate), isUntrusted);
+  });
+
+  describe('against the mock server', () => {
+    before(silenceConsole);
+    afterEach(cleanup);
+
+    it('logs in with the server key pinned', async () => {
+      const { server, url } = await startServer();
+      const client = await login(server, createClient(url, { connection: { serverTrust: server.getServerTrust(true) } }));
+
+      assert.equal(client.state, 'ready');
+    });
+  });
+});
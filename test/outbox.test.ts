@@ -0,0 +1,143 @@
+/**
+ * Outbox ordering, retries and persistence, and retries of failed sends
+ */
+
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Outbox } from '../src/outbox';
+import { rekeySession } from '../src/auth-state';
+import { SessionError } from '../src/utils/errors';
+import { silenceConsole, startServer, createClient, login, once, cleanup } from './helpers';
+
+const ALICE = '15550000001@s.whatsapp.net';
+const BOB = '15550000002@s.whatsapp.net';
+const CAROL = '15550000003@s.whatsapp.net';
+
+describe('outbox', () => {
+  let dir: string;
+
+  before(async () => {
+    silenceConsole();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wa-outbox-'));
+  });
+
+  afterEach(cleanup);
+  // Clients may still be saving keys while they shut down
+  after(() => fs.rm(dir, { recursive: true, force: true, maxRetries: 5 }));
+
+  it('holds back only the chat of a failed request until its retry is due', async () => {
+    const outbox = new Outbox<string>({ retryDelay: 1000, maxRetryDelay: 3000, maxAttempts: 5 });
+    await outbox.add('a1', 'first to A', 'A');
+    await outbox.add('a2', 'second to A', 'A');
+    await outbox.add('b1', 'first to B', 'B');
+
+    const failedAt = Date.now();
+    assert.equal(await outbox.recordAttempt('a1', new Error('offline')), true);
+
+    assert.equal(outbox.next()?.id, 'b1');
+    await outbox.remove('b1');
+    assert.equal(outbox.next(), undefined);
+
+    const retryAt = outbox.nextRetryAt()!;
+    assert.ok(retryAt >= failedAt + 1000 && retryAt <= Date.now() + 1000);
+    assert.equal(outbox.next(retryAt)?.id, 'a1');
+
+    // The delay doubles after every failure, up to maxRetryDelay
+    await outbox.recordAttempt('a1', new Error('offline'));
+    assert.ok(outbox.get('a1')!.retryAt! - Date.now() > 1500);
+    await outbox.recordAttempt('a1', new Error('offline'));
+    assert.ok(outbox.get('a1')!.retryAt! - Date.now() <= 3000);
+  });
+
+  it('keeps Buffers and encrypts the file with a passphrase', async () => {
+    const file = path.join(dir, 'outbox.json');
+    const mediaKey = Buffer.from('00112233445566778899aabbccddeeff', 'hex');
+
+    const outbox = new Outbox<{ mediaKey: Buffer }>({ file, passphrase: 'secret' });
+    await outbox.add('secret-message-id', { mediaKey }, 'A');
+
+    const contents = await fs.readFile(file, 'utf8');
+    assert.ok(!contents.includes('secret-message-id'));
+
+    const reloaded = new Outbox<{ mediaKey: Buffer }>({ file, passphrase: 'secret' });
+    await reloaded.load();
+    const entry = reloaded.get('secret-message-id')!;
+    assert.ok(Buffer.isBuffer(entry.request.mediaKey));
+    assert.deepEqual(entry.request.mediaKey, mediaKey);
+    assert.equal(entry.group, 'A');
+
+    await assert.rejects(
+      new Outbox({ file }).load(),
+      (error: Error) => error instanceof SessionError && error.code === 'PASSPHRASE_REQUIRED'
+    );
+  });
+
+  it('keeps sending to other chats and retries a failed message', async () => {
+    const { server, url } = await startServer();
+    const options = { features: { e2e: true }, outbox: { retryDelay: 50, maxRetryDelay: 200 } };
+    const alice = await login(server, createClient(url, options), ALICE);
+    const bob = await login(server, createClient(url, options), BOB);
+
+    // Carol has not published pre-keys yet, so her message cannot be encrypted
+    const toCarol = await alice.sendMessage(CAROL, 'Hi Carol!');
+    assert.equal(toCarol.status, 'pending');
+
+    const atBob = once(bob, 'message.new');
+    await alice.sendMessage(BOB, 'Hi Bob!');
+    assert.deepEqual((await atBob).content, { text: 'Hi Bob!' });
+
+    const carol = createClient(url, options);
+    const atCarol = once(carol, 'message.new');
+    await login(server, carol, CAROL);
+
+    assert.deepEqual((await atCarol).content, { text: 'Hi Carol!' });
+  });
+
+  it('does not hold back other chats while a chat waits for its send budget', async () => {
+    const { server, url } = await startServer();
+    const rateLimit = { messagesPerMinute: 0, perChatPerMinute: 1, newChatsPerHour: 0, minGap: 0, gapJitter: 0 };
+    const alice = await login(server, createClient(url, { rateLimit }), ALICE);
+    const bob = await login(server, createClient(url), BOB);
+    const carol = await login(server, createClient(url), CAROL);
+
+    const atBob = once(bob, 'message.new');
+    await alice.sendMessage(BOB, 'One');
+    assert.deepEqual((await atBob).content, { text: 'One' });
+
+    const throttled = once(alice, 'rate_limit.throttled');
+    alice.sendMessage(BOB, 'Two');
+    const { reason, chat } = await throttled;
+    assert.deepEqual({ reason, chat }, { reason: 'chat', chat: BOB });
+
+    const atCarol = once(carol, 'message.new');
+    alice.sendMessage(CAROL, 'Hi Carol!');
+    assert.deepEqual((await atCarol).content, { text: 'Hi Carol!' });
+  });
+
+  it('sends a queued message after the session is rekeyed', async () => {
+    const { server, url } = await startServer();
+    const sessionPath = path.join(dir, 'rekeyed');
+    const options = { features: { e2e: true }, outbox: { retryDelay: 50, maxRetryDelay: 200 } };
+
+    const alice = createClient(url, { ...options, auth: { sessionPath, passphrase: 'old', autoSave: true } });
+    await login(server, alice, ALICE);
+    assert.equal((await alice.sendMessage(CAROL, 'Hi Carol!')).status, 'pending');
+    alice.disconnect();
+
+    await rekeySession(sessionPath, { oldPassphrase: 'old', newPassphrase: 'new' });
+
+    const restored = createClient(url, { ...options, auth: { sessionPath, passphrase: 'new', autoSave: true } });
+    const ready = once(restored, 'ready');
+    await restored.connect();
+    await ready;
+
+    const carol = createClient(url, options);
+    const atCarol = once(carol, 'message.new');
+    await login(server, carol, CAROL);
+
+    assert.deepEqual((await atCarol).content, { text: 'Hi Carol!' });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Token buckets, send budgets and throttling of the rate limiter
+ */
+
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter, RateLimitOptions, RateLimitRequest, ThrottleEvent, TokenBucket } from '../src/rate-limit';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Only the budget under test applies
+const NO_LIMITS: RateLimitOptions = { messagesPerMinute: 0, perChatPerMinute: 0, newChatsPerHour: 0, minGap: 0, gapJitter: 0 };
+
+/**
+ * Move the mocked clock forward and let the resolved requests run
+ */
+async function advance(ms: number): Promise<void> {
+  mock.timers.tick(ms);
+  await new Promise(resolve => setImmediate(resolve));
+}
+
+/**
+ * Queue requests, recording the names of those let through in order
+ */
+function acquireAll(limiter: RateLimiter, requests: Array<[string, RateLimitRequest]>): string[] {
+  const sent: string[] = [];
+  for (const [name, request] of requests) {
+    limiter.acquire(request).then(() => sent.push(name), () => undefined);
+  }
+  return sent;
+}
+
+describe('rate limiter', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['setTimeout', 'Date'] }));
+  afterEach(() => mock.timers.reset());
+
+  it('refills a token bucket evenly over its interval', () => {
+    const bucket = new TokenBucket(2, 1000);
+    assert.equal(bucket.take(), true);
+    assert.equal(bucket.take(), true);
+    assert.equal(bucket.take(), false);
+    assert.equal(bucket.delay(), 500);
+
+    mock.timers.tick(500);
+    assert.equal(bucket.delay(), 0);
+    assert.equal(bucket.take(), true);
+    assert.equal(bucket.isFull(), false);
+
+    mock.timers.tick(1000);
+    assert.equal(bucket.isFull(), true);
+  });
+
+  it('holds back everyone when the global budget runs out', async () => {
+    const limiter = new RateLimiter({ ...NO_LIMITS, messagesPerMinute: 1 });
+    const throttled: ThrottleEvent[] = [];
+    limiter.on('throttled', event => throttled.push(event));
+
+    const sent = acquireAll(limiter, [
+      ['a1', { kind: 'message', chat: 'a' }],
+      ['action', { kind: 'action' }],
+      ['b1', { kind: 'message', chat: 'b' }]
+    ]);
+
+    await advance(0);
+    assert.deepEqual(sent, ['a1']);
+    assert.deepEqual(throttled, [{ reason: 'global', chat: undefined, delay: MINUTE, queued: 2 }]);
+
+    await advance(MINUTE);
+    assert.deepEqual(sent, ['a1', 'action']);
+    await advance(MINUTE);
+    assert.deepEqual(sent, ['a1', 'action', 'b1']);
+  });
+
+  it('lets other chats go first while a chat waits for its own budget', async () => {
+    const limiter = new RateLimiter({ ...NO_LIMITS, perChatPerMinute: 1 });
+    const throttled: ThrottleEvent[] = [];
+    limiter.on('throttled', event => throttled.push(event));
+
+    const sent = acquireAll(limiter, [
+      ['a1', { kind: 'message', chat: 'a' }],
+      ['a2', { kind: 'message', chat: 'a' }],
+      ['a3', { kind: 'message', chat: 'a' }],
+      ['b1', { kind: 'message', chat: 'b' }]
+    ]);
+
+    await advance(0);
+    assert.deepEqual(sent, ['a1', 'b1']);
+    // Reported once per waiting request, not on every check
+    assert.deepEqual(throttled, [{ reason: 'chat', chat: 'a', delay: MINUTE, queued: 3 }]);
+    assert.equal(limiter.pending, 2);
+
+    // A later request does not wait for the retry of the held chat
+    limiter.acquire({ kind: 'message', chat: 'c' }).then(() => sent.push('c1'));
+    await advance(0);
+    assert.deepEqual(sent, ['a1', 'b1', 'c1']);
+
+    await advance(MINUTE);
+    assert.deepEqual(sent, ['a1', 'b1', 'c1', 'a2']);
+    assert.equal(throttled.length, 2);
+
+    await advance(MINUTE);
+    assert.deepEqual(sent, ['a1', 'b1', 'c1', 'a2', 'a3']);
+  });
+
+  it('spends the new chat budget on the first message to a chat only', async () => {
+    const limiter = new RateLimiter({ ...NO_LIMITS, newChatsPerHour: 1 });
+    const throttled: ThrottleEvent[] = [];
+    limiter.on('throttled', event => throttled.push(event));
+
+    const sent = acquireAll(limiter, [
+      ['x1', { kind: 'message', chat: 'x', newChat: true }],
+      ['y1', { kind: 'message', chat: 'y', newChat: true }],
+      ['x2', { kind: 'message', chat: 'x', newChat: true }],
+      ['known', { kind: 'message', chat: 'z' }]
+    ]);
+
+    await advance(0);
+    assert.deepEqual(sent, ['x1', 'x2', 'known']);
+    assert.deepEqual(throttled, [{ reason: 'new_chat', chat: 'y', delay: HOUR, queued: 3 }]);
+
+    await advance(HOUR);
+    assert.deepEqual(sent, ['x1', 'x2', 'known', 'y1']);
+  });
+
+  it('rejects the waiting requests when cancelled', async () => {
+    const limiter = new RateLimiter({ ...NO_LIMITS, perChatPerMinute: 1 });
+    const first = limiter.acquire({ kind: 'message', chat: 'a' });
+    const waiting = [
+      limiter.acquire({ kind: 'message', chat: 'a' }),
+      limiter.acquire({ kind: 'message', chat: 'a' })
+    ];
+
+    await advance(0);
+    await first;
+    assert.equal(limiter.pending, 2);
+
+    const error = new Error('Disconnected');
+    limiter.cancel(error);
+
+    for (const request of waiting) {
+      await assert.rejects(request, error);
+    }
+    assert.equal(limiter.pending, 0);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Frame recording and offline replay of recorded sessions
+ */
+
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FrameReplayer, RecordedFrame, readRecording } from '../src/recorder';
+import { encodeBinaryNode } from '../src/binary';
+import { silenceConsole, startServer, createClient, login, once, cleanup } from './helpers';
+
+const ALICE = '15550000001@s.whatsapp.net';
+const BOB = '15550000002@s.whatsapp.net';
+
+/**
+ * Read a recording once the client's writes reached the file
+ */
+async function readFlushed(file: string, expected: (frames: RecordedFrame[]) => boolean): Promise<RecordedFrame[]> {
+  for (let i = 0; i < 50; i++) {
+    const frames = await readRecording(file).catch(() => []);
+    if (expected(frames)) return frames;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`Recording ${file} is incomplete`);
+}
+
+describe('frame recorder', () => {
+  let dir: string;
+
+  before(async () => {
+    silenceConsole();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wa-recorder-'));
+  });
+
+  afterEach(cleanup);
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('records a session with its login secrets redacted', async () => {
+    const file = path.join(dir, 'redacted.jsonl');
+    const { server, url } = await startServer();
+    const client = await login(server, createClient(url, { recorder: { path: file } }), ALICE);
+    client.disconnect();
+
+    const frames = await readFlushed(file, recorded => recorded.some(frame => frame.node?.tag === 'success'));
+    const success = frames.find(frame => frame.node?.tag === 'success')!;
+
+    assert.equal(success.direction, 'in');
+    assert.equal(success.node!.attrs.secret, '[redacted]');
+    assert.equal(success.node!.attrs.serverToken, '[redacted]');
+    assert.equal(success.payload, undefined);
+    assert.ok(frames.some(frame => frame.direction === 'out' && frame.node?.attrs.type === 'init'));
+  });
+
+  it('replays a recorded session into an offline client', async () => {
+    const file = path.join(dir, 'session.jsonl');
+    const { server, url } = await startServer();
+    server.injectChat({ id: '123-456@g.us', name: 'Team', participants: [ALICE] });
+
+    const live = await login(server, createClient(url, { recorder: { path: file } }), ALICE);
+    const received = once(live, 'message.new');
+    server.injectMessage({ from: BOB, type: 'text', content: { text: 'bug repro' } });
+    await received;
+    live.disconnect();
+
+    await readFlushed(file, recorded => recorded.some(frame => frame.node?.tag === 'action'));
+
+    const offline = createClient('ws://127.0.0.1:1/unused');
+    const messages: any[] = [];
+    offline.on('message.new', message => messages.push(message));
+    const ready = once(offline, 'ready');
+
+    const result = await new FrameReplayer(offline).replay(file);
+    await ready;
+
+    assert.deepEqual(result.errors, []);
+    assert.ok(result.outbound.some(frame => frame.node?.tag === 'query'));
+    assert.equal(offline.getStatus().user?.id, ALICE);
+    assert.deepEqual(messages.map(message => message.content), [{ text: 'bug repro' }]);
+    assert.equal(offline.getStatus().chats, 1);
+  });
+
+  it('reports frames that fail to decode', async () => {
+    const frames: RecordedFrame[] = [
+      { direction: 'in', timestamp: 1, tag: '', payload: Buffer.from([0xF8, 0x09, 0xFF]) },
+      {
+        direction: 'in',
+        timestamp: 2,
+        tag: '',
+        payload: encodeBinaryNode({ tag: 'presence', attrs: { from: BOB, type: 'available' }, content: null })
+      }
+    ];
+
+    const client = createClient('ws://127.0.0.1:1/unused');
+    client.on('error', () => undefined);
+
+    // Without an 'error' listener, the errors are only collected
+    const result = await new FrameReplayer(client).replay(frames);
+
+    assert.equal(result.errors.length, 1);
+    assert.equal(result.inbound, 1);
+
+    const reported: Error[] = [];
+    const replayer = new FrameReplayer(createClient('ws://127.0.0.1:1/unused'));
+    replayer.on('error', error => reported.push(error));
+
+    assert.deepEqual((await replayer.replay(frames)).errors, reported);
+    assert.equal(reported.length, 1);
+  });
+});